@@ -1,8 +1,8 @@
--- Initialize database schema and extensions
--- Note: This file runs before dump imports (1_migrate.sh)
--- Comment out schema.sql and indexes.sql if using a dump that includes them
+-- Initialize database extensions and bookkeeping tables
+-- Note: This file runs before the schema migrations (0_schema.sh) and dump
+-- imports (1_migrate.sh)
 
 \i /pg/extensions.sql
-\i /pg/schema.sql
-\i /pg/indexes.sql
+\i /pg/schema_migrations.sql
+\i /pg/sync_state.sql
 \i /pg/api_user.sql
@@ -0,0 +1,16 @@
+#!/bin/bash
+# Create the schema by applying every migration in /pg/migrations in order,
+# recording each in schema_migrations as `pnpm run migrate up` does
+set -e
+
+for up_file in /pg/migrations/*.up.sql; do
+  migration=$(basename "$up_file" .up.sql)
+  version=$((10#${migration%%_*}))
+  checksum=$(sha256sum "$up_file" | cut -d ' ' -f 1)
+
+  echo "Applying migration: $migration"
+  psql -v ON_ERROR_STOP=1 --single-transaction --username "$POSTGRES_USER" --dbname "$POSTGRES_DB" \
+    -f "$up_file" \
+    -c "INSERT INTO schema_migrations (version, name, checksum) VALUES ($version, '${migration#*_}', '$checksum')"
+done
+echo "✓ Schema created"
@@ -2,9 +2,16 @@
 # Restore from latest backup if it exists
 # This runs during initial database setup
 
+BACKUP_ARCHIVE="/pg/dump/latest-backup.dump"
 BACKUP_FILE="/pg/dump/latest-backup.sql"
 
-if [ -f "$BACKUP_FILE" ]; then
+if [ -f "$BACKUP_ARCHIVE" ]; then
+  # Written by the backup service as a custom-format archive
+  echo "Found backup archive, restoring database..."
+  pg_restore -U "$POSTGRES_USER" -d "$POSTGRES_DB" --no-owner --no-acl "$BACKUP_ARCHIVE"
+  echo "Database restored from backup"
+elif [ -f "$BACKUP_FILE" ]; then
+  # Written by older versions of the backup service
   echo "Found backup file, restoring database..."
   psql -U "$POSTGRES_USER" -d "$POSTGRES_DB" < "$BACKUP_FILE"
   echo "Database restored from backup"
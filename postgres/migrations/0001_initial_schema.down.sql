@@ -0,0 +1,18 @@
+-- Drops the whole schema, with all of its data
+
+DROP TABLE IF EXISTS Archetypes;
+DROP TABLE IF EXISTS Decks;
+DROP TABLE IF EXISTS Matches;
+DROP TABLE IF EXISTS Standings;
+DROP TABLE IF EXISTS Events;
+DROP TABLE IF EXISTS Players;
+
+DROP TYPE IF EXISTS CardQuantityPair;
+DROP TYPE IF EXISTS GameResult;
+DROP TYPE IF EXISTS ResultType;
+DROP TYPE IF EXISTS EventType;
+DROP TYPE IF EXISTS FormatType;
+
+DROP DOMAIN IF EXISTS RecordType;
+DROP DOMAIN IF EXISTS Percentage;
+DROP DOMAIN IF EXISTS PlayerName;
@@ -1,3 +1,6 @@
+-- Initial schema: the tables, types and indexes of the original schema.sql
+-- and indexes.sql
+
 CREATE DOMAIN PlayerName AS VARCHAR(255);
   -- CHECK (VALUE ~ '^[a-zA-Z0-9_-]{3,20}$');
 
@@ -112,3 +115,14 @@ CREATE TABLE Archetypes (
   archetype TEXT NULL,
   archetype_id INT NULL
 );
+
+CREATE index idx_event_date on Events (date);
+CREATE index idx_event_format on Events (format);
+CREATE index idx_event_kind on Events (kind);
+
+CREATE index idx_standing_player on Standings (event_id, player);
+
+CREATE index idx_match_player on Matches (event_id, player);
+CREATE index idx_match_opponent on Matches (event_id, opponent);
+
+CREATE index idx_deck_player on Decks (event_id, player);
@@ -0,0 +1,3 @@
+-- The indexes were redundant or unused, so they are not recreated
+
+SELECT 1;
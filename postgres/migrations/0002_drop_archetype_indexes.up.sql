@@ -0,0 +1,7 @@
+-- Drops the archetype indexes that earlier versions of indexes.sql created.
+-- The UNIQUE constraint on deck_id already indexes archetypes by deck, and
+-- the others went unused. Databases created since never had them.
+
+DROP INDEX IF EXISTS idx_archetype_deck_id;
+DROP INDEX IF EXISTS idx_archetype_archetype;
+DROP INDEX IF EXISTS idx_archetype_archetype_id;
@@ -0,0 +1,13 @@
+-- Events that sync-upstream held back with --unknown-values quarantine, as
+-- their format or kind is missing from the local enums. Each run retries
+-- them, and removes them from here once they are synced.
+
+CREATE TABLE sync_quarantine (
+  event_id        INT PRIMARY KEY,
+  source          TEXT NOT NULL,
+  run_id          UUID NOT NULL,
+  reason          TEXT NOT NULL,
+  -- The upstream event, with the values the enums lack
+  row_data        JSONB NOT NULL,
+  quarantined_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
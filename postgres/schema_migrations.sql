@@ -0,0 +1,12 @@
+-- Migrations applied to the schema, by scripts/migrate.ts and when the
+-- database is first created (initdb.d/0_schema.sh)
+-- Note: This statement is idempotent, as the migrate script also applies this
+-- file so that existing databases pick up the table.
+
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version     INT PRIMARY KEY,
+  name        TEXT NOT NULL,
+  -- SHA-256 of the up migration as it was applied
+  checksum    TEXT NOT NULL,
+  applied_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
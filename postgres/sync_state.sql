@@ -0,0 +1,48 @@
+-- Bookkeeping tables for scripts/sync-upstream.ts
+-- Note: These statements are idempotent, as the sync script also applies this
+-- file on startup so that existing databases pick up the tables.
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id              UUID PRIMARY KEY,
+  source          TEXT NOT NULL,
+  status          TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed')),
+  started_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at     TIMESTAMPTZ,
+  -- High-water mark of upstream events fully synced by this run
+  watermark_date  DATE,
+  watermark_id    INT,
+  stats           JSONB,
+  error           TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_source
+  ON sync_runs (source, watermark_date, watermark_id);
+
+CREATE TABLE IF NOT EXISTS sync_event_state (
+  event_id    INT PRIMARY KEY,
+  source      TEXT NOT NULL,
+  run_id      UUID NOT NULL
+    REFERENCES sync_runs (id)
+      ON DELETE CASCADE,
+  -- Last stage completed for this event
+  stage       TEXT NOT NULL DEFAULT 'pending'
+    CHECK (stage IN ('pending', 'players', 'events', 'standings', 'matches', 'decks', 'archetypes', 'complete')),
+  started_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_event_state_stage
+  ON sync_event_state (source, stage);
+
+-- Rows removed locally because they no longer exist upstream
+CREATE TABLE IF NOT EXISTS sync_tombstones (
+  id          BIGSERIAL PRIMARY KEY,
+  run_id      UUID NOT NULL,
+  table_name  TEXT NOT NULL,
+  row_data    JSONB NOT NULL,
+  deleted_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_tombstones_run
+  ON sync_tombstones (run_id, table_name);
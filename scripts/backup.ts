@@ -0,0 +1,783 @@
+import postgres from 'postgres';
+import dotenv from 'dotenv';
+import fs from 'node:fs';
+import { copyFile, unlink } from 'node:fs/promises';
+import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { parseArgs } from 'node:util';
+import { acquireWriteLock, describeHolder, type WriteLock } from './lib/lock.ts';
+import { formatAge, parseDuration } from './lib/duration.ts';
+import { detectDumpFormat, dumpDatabase, restoreDump } from './lib/dump.ts';
+import {
+  BACKUP_DIR,
+  DEFAULT_RETENTION,
+  LATEST_BACKUP,
+  STATUS_FILE,
+  backupFileName,
+  checkStatus,
+  countDumpRows,
+  formatSize,
+  getWriteWatermark,
+  listBackups,
+  planRetention,
+  readStatus,
+  removeBackup,
+  sameWatermark,
+  writeStatus,
+  type Backup,
+  type BackupStatus,
+  type RetentionPolicy,
+  type WriteWatermark,
+} from './lib/backups.ts';
+import {
+  compareCounts,
+  countRows,
+  createManifest,
+  describeMismatches,
+  getMaxEventDate,
+  getSchemaVersion,
+  manifestPath,
+  readManifest,
+  verifyDump,
+  writeManifest,
+  type DumpManifest,
+  type ManifestDetails,
+} from './lib/manifest.ts';
+import { getMigrationVersion } from './lib/migrations.ts';
+import {
+  DEFAULT_BASE_KEEP,
+  WAL_DIR,
+  getArchiverStatus,
+  getTimeline,
+  listBaseBackups,
+  pruneBaseBackups,
+  takeBaseBackup,
+} from './lib/pitr.ts';
+import { connect, describeTarget, getTools, resolveTarget, type Target, type Tools } from './lib/target.ts';
+
+dotenv.config();
+
+/**
+ * Takes and manages the database backups. `watch` is the backup service,
+ * which the backup container runs.
+ *
+ * Usage:
+ *   pnpm run backup watch [--interval <t>] [--after-write <t>] [--min-interval <t>] [retention]
+ *   pnpm run backup status [--max-age <t>]
+ *   pnpm run backup list
+ *   pnpm run backup verify [file...] [--all]
+ *   pnpm run backup prune [--daily <n>] [--weekly <n>] [--monthly <n>] [--dry-run]
+ *   pnpm run backup restore <file> [--wait <t>]
+ *   pnpm run backup base [--keep-base <n>]
+ *
+ * Commands:
+ *   watch             Back up the database after writes, and prune old backups
+ *   status            Show when the service last backed up, failing if it is unhealthy
+ *   list              List the backups with their size, age and row counts
+ *   verify            Restore backups into a scratch database and compare their
+ *                     row counts (default: the newest backup)
+ *   prune             Remove the backups outside the retention policy
+ *   restore           Replace the database with a backup ("latest" for the newest)
+ *   base              Take a base backup for point-in-time recovery now
+ *
+ * Options:
+ *   --dir <dir>       Directory of the backups (default: postgres/dump)
+ *   --interval <t>    How often watch checks for writes (default: 1m)
+ *   --after-write <t> Back up once there have been no writes for this long (default: 5m)
+ *   --min-interval <t> Minimum time between backups (default: 1h)
+ *   --max-age <t>     Also fail status if the last backup is older than this
+ *   --all             Verify all backups
+ *   --daily <n>       Keep the newest backup of the last n days (default: 7)
+ *   --weekly <n>      Keep the newest backup of the last n weeks (default: 4)
+ *   --monthly <n>     Keep the newest backup of the last n months (default: 12)
+ *   --dry-run         Show what prune would remove without removing anything
+ *   --wait <t>        If another script is writing, wait up to this long (e.g. 5m)
+ *   --target <target> Back up, verify or restore this server instead of the one in .env
+ *   --wal-dir <dir>   Directory of the WAL archive and base backups (default: postgres/wal)
+ *   --base-interval <t> How often watch takes a base backup, or 0 for never (default: 24h)
+ *   --keep-base <n>   Keep the newest n base backups, and the WAL they need (default: 7)
+ *
+ * Durations without a unit are in seconds. Backups are custom-format archives
+ * with a manifest holding their checksum and row counts. Older plain backups
+ * get one when they are verified, and later verifies and restores check it.
+ *
+ * Base backups are taken with pg_basebackup, which must be installed, and are
+ * only useful with the WAL archive that the primary writes next to them (see
+ * pitr-restore).
+ */
+
+const COMMANDS = ['watch', 'status', 'list', 'verify', 'prune', 'restore', 'base'] as const;
+
+type Command = typeof COMMANDS[number];
+
+// Scratch database that verify restores backups into
+const SCRATCH_DB = 'mtgo_backup_verify';
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    'dir': { type: 'string', default: BACKUP_DIR },
+    'interval': { type: 'string', default: '1m' },
+    'after-write': { type: 'string', default: '5m' },
+    'min-interval': { type: 'string', default: '1h' },
+    'max-age': { type: 'string' },
+    'all': { type: 'boolean', default: false },
+    'daily': { type: 'string' },
+    'weekly': { type: 'string' },
+    'monthly': { type: 'string' },
+    'dry-run': { type: 'boolean', default: false },
+    'wait': { type: 'string' },
+    'target': { type: 'string' },
+    'wal-dir': { type: 'string', default: WAL_DIR },
+    'base-interval': { type: 'string', default: '24h' },
+    'keep-base': { type: 'string' },
+  },
+});
+
+function parseCount(value: string | undefined, fallback: number): number | null {
+  if (value === undefined) return fallback;
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+const command = positionals[0] as Command | undefined;
+const files = positionals.slice(1);
+const backupDir = path.resolve(process.cwd(), args['dir']);
+const walDir = path.resolve(process.cwd(), args['wal-dir']);
+const lockWait = args['wait'] ? parseDuration(args['wait'], 's') : 0;
+const checkInterval = parseDuration(args['interval'], 's');
+const afterWrite = parseDuration(args['after-write'], 's');
+const minInterval = parseDuration(args['min-interval'], 's');
+const maxAge = args['max-age'] ? parseDuration(args['max-age'], 's') : null;
+const baseInterval = parseDuration(args['base-interval'], 's');
+const keepBase = parseCount(args['keep-base'], DEFAULT_BASE_KEEP);
+const retention = {
+  daily: parseCount(args['daily'], DEFAULT_RETENTION.daily),
+  weekly: parseCount(args['weekly'], DEFAULT_RETENTION.weekly),
+  monthly: parseCount(args['monthly'], DEFAULT_RETENTION.monthly),
+};
+
+let target: Target | null = null;
+try {
+  target = resolveTarget(args['target']);
+} catch (err) {
+  console.error(`Error: ${(err as Error).message}\n`);
+}
+
+if (
+  !command ||
+  !COMMANDS.includes(command) ||
+  (command === 'restore' && files.length !== 1) ||
+  (command !== 'verify' && command !== 'restore' && files.length > 0) ||
+  lockWait === null ||
+  !checkInterval ||
+  afterWrite === null ||
+  minInterval === null ||
+  (args['max-age'] !== undefined && maxAge === null) ||
+  baseInterval === null ||
+  !keepBase ||
+  Object.values(retention).some(count => count === null) ||
+  !target
+) {
+  console.error('Usage:');
+  console.error('  pnpm run backup watch [--interval <t>] [--after-write <t>] [--min-interval <t>] [retention]');
+  console.error('  pnpm run backup status [--max-age <t>]');
+  console.error('  pnpm run backup list');
+  console.error('  pnpm run backup verify [file...] [--all]');
+  console.error('  pnpm run backup prune [--daily <n>] [--weekly <n>] [--monthly <n>] [--dry-run]');
+  console.error('  pnpm run backup restore <file> [--wait <t>]');
+  console.error('  pnpm run backup base [--keep-base <n>]');
+  console.error('');
+  console.error('Commands:');
+  console.error('  watch             Back up the database after writes, and prune old backups');
+  console.error('  status            Show when the service last backed up, failing if it is unhealthy');
+  console.error('  list              List the backups with their size, age and row counts');
+  console.error('  verify            Restore backups into a scratch database and compare their');
+  console.error('                    row counts (default: the newest backup)');
+  console.error('  prune             Remove the backups outside the retention policy');
+  console.error('  restore           Replace the database with a backup ("latest" for the newest)');
+  console.error('  base              Take a base backup for point-in-time recovery now');
+  console.error('');
+  console.error('Options:');
+  console.error(`  --dir <dir>       Directory of the backups (default: ${BACKUP_DIR})`);
+  console.error('  --interval <t>    How often watch checks for writes (default: 1m)');
+  console.error('  --after-write <t> Back up once there have been no writes for this long (default: 5m)');
+  console.error('  --min-interval <t> Minimum time between backups (default: 1h)');
+  console.error('  --max-age <t>     Also fail status if the last backup is older than this');
+  console.error('  --all             Verify all backups');
+  console.error(`  --daily <n>       Keep the newest backup of the last n days (default: ${DEFAULT_RETENTION.daily})`);
+  console.error(`  --weekly <n>      Keep the newest backup of the last n weeks (default: ${DEFAULT_RETENTION.weekly})`);
+  console.error(`  --monthly <n>     Keep the newest backup of the last n months (default: ${DEFAULT_RETENTION.monthly})`);
+  console.error('  --dry-run         Show what prune would remove without removing anything');
+  console.error('  --wait <t>        If another script is writing, wait up to this long (e.g. 5m)');
+  console.error('  --target <target> Back up, verify or restore this server instead of the one in .env:');
+  console.error('                    a connection string, or a name set as POSTGRES_TARGET_<NAME>');
+  console.error(`  --wal-dir <dir>   Directory of the WAL archive and base backups (default: ${WAL_DIR})`);
+  console.error('  --base-interval <t> How often watch takes a base backup, or 0 for never (default: 24h)');
+  console.error(`  --keep-base <n>   Keep the newest n base backups, and the WAL they need (default: ${DEFAULT_BASE_KEEP})`);
+  console.error('');
+  console.error('Durations without a unit are in seconds.');
+  process.exit(1);
+}
+
+function totalRows(manifest: DumpManifest): number {
+  return Object.values(manifest.tables).reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Finds the backup files named on the command line, in the backup directory
+ * or relative to the current one. "latest" is the newest backup.
+ */
+function resolveBackup(name: string, backups: Backup[]): string {
+  if (name === 'latest') {
+    if (backups.length === 0) {
+      throw new Error(`No backups found in ${backupDir}`);
+    }
+    return backups[0].path;
+  }
+
+  for (const candidate of [path.resolve(process.cwd(), name), path.join(backupDir, name)]) {
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  throw new Error(`Backup not found: ${name}`);
+}
+
+async function listCommand(): Promise<void> {
+  const backups = await listBackups(backupDir);
+  if (backups.length === 0) {
+    console.log(`No backups in ${backupDir}.`);
+    return;
+  }
+
+  console.log(`Backups in ${backupDir}:\n`);
+  const width = Math.max(...backups.map(b => b.file.length));
+  console.log(`  ${'File'.padEnd(width)}  ${'Age'.padStart(8)}  ${'Size'.padStart(10)}  ${'Events'.padStart(8)}  ${'Rows'.padStart(12)}`);
+  for (const backup of backups) {
+    const events = backup.manifest?.tables.events?.toLocaleString() ?? '-';
+    const rows = backup.manifest ? totalRows(backup.manifest).toLocaleString() : '-';
+    console.log(
+      `  ${backup.file.padEnd(width)}  ${formatAge(backup.createdAt).padStart(8)}  ${formatSize(backup.bytes).padStart(10)}  ` +
+      `${events.padStart(8)}  ${rows.padStart(12)}`
+    );
+  }
+
+  const bytes = backups.reduce((sum, b) => sum + b.bytes, 0);
+  const unverified = backups.filter(b => !b.manifest).length;
+  console.log(`\n${backups.length} backup${backups.length === 1 ? '' : 's'}, ${formatSize(bytes)} in total.`);
+  if (unverified > 0) {
+    console.log(`${unverified} without row counts have not been verified yet; check them with: pnpm run backup verify --all`);
+  }
+}
+
+/**
+ * Restores a backup into the scratch database and checks its row counts
+ * against its manifest, or against the rows in the dump itself if it has no
+ * manifest yet, in which case one is written.
+ */
+async function verifyBackup(file: string, createdAt: Date, tools: Tools): Promise<void> {
+  const dump = await detectDumpFormat(file);
+  const manifest = await readManifest(file);
+  if (manifest) {
+    await verifyDump(dump, manifest);
+    console.log('  ✓ Checksum matches the manifest');
+  }
+
+  const expected = manifest?.tables ?? (dump.format === 'plain' ? await countDumpRows(dump) : null);
+
+  const sqlDirect = connect(target!, { direct: true, database: 'postgres' });
+  try {
+    // Left behind if an earlier verify was interrupted
+    const [leftover] = await sqlDirect`SELECT 1 FROM pg_database WHERE datname = ${SCRATCH_DB}`;
+    if (leftover) {
+      await sqlDirect`DROP DATABASE ${sqlDirect.unsafe(SCRATCH_DB)}`;
+    }
+    await sqlDirect`CREATE DATABASE ${sqlDirect.unsafe(SCRATCH_DB)}`;
+
+    await restoreDump(dump, tools, SCRATCH_DB, { ignore: ['already exists', 'extension'] });
+    console.log('  ✓ Restored into the scratch database');
+
+    const sqlScratch = connect(target!, { direct: true, database: SCRATCH_DB });
+    let counts: Record<string, number>;
+    let details: ManifestDetails | null = null;
+    try {
+      counts = await countRows(sqlScratch);
+      if (Object.keys(counts).length === 0) {
+        throw new Error('The backup restored no tables');
+      }
+      if (!manifest) {
+        details = {
+          schemaVersion: await getSchemaVersion(sqlScratch),
+          migrationVersion: await getMigrationVersion(sqlScratch),
+          maxEventDate: await getMaxEventDate(sqlScratch),
+          tables: counts,
+        };
+      }
+    } finally {
+      await sqlScratch.end();
+    }
+
+    if (expected) {
+      const mismatches = compareCounts(expected, counts);
+      if (mismatches.length > 0) {
+        throw new Error(`Row counts don't match the ${manifest ? 'manifest' : 'dump'} (${describeMismatches(mismatches)})`);
+      }
+      console.log(`  ✓ Row counts match the ${manifest ? 'manifest' : 'dump'} (${Object.keys(expected).length} tables)`);
+    } else {
+      console.log('  ! The dump\'s own row counts can only be read from plain SQL dumps, so they were not compared');
+    }
+
+    if (details) {
+      await writeManifest(file, await createManifest('backup', dump, target!.database, details, { createdAt }));
+      console.log(`  ✓ Manifest: ${manifestPath(file)}`);
+    }
+  } finally {
+    await sqlDirect`DROP DATABASE IF EXISTS ${sqlDirect.unsafe(SCRATCH_DB)}`.catch(() => {});
+    await sqlDirect.end();
+  }
+}
+
+async function verifyCommand(): Promise<void> {
+  const backups = await listBackups(backupDir);
+  const selected = args['all']
+    ? backups.map(b => b.path)
+    : files.length > 0
+      ? files.map(name => resolveBackup(name, backups))
+      : [resolveBackup('latest', backups)];
+  if (selected.length === 0) {
+    console.log(`No backups in ${backupDir}.`);
+    return;
+  }
+
+  const tools = await getTools(target!, ['psql', 'pg_restore']);
+  console.log(`Verifying ${selected.length} backup${selected.length === 1 ? '' : 's'} on ${describeTarget(target!, tools)}.\n`);
+
+  const failed: string[] = [];
+  for (const file of selected) {
+    console.log(`${path.basename(file)}:`);
+    const createdAt = backups.find(b => b.path === file)?.createdAt ?? fs.statSync(file).mtime;
+    try {
+      await verifyBackup(file, createdAt, tools);
+    } catch (err) {
+      console.log(`  ✗ ${(err as Error).message}`);
+      failed.push(path.basename(file));
+    }
+  }
+
+  console.log('');
+  if (failed.length > 0) {
+    console.log(`✗ ${failed.length} of ${selected.length} backups failed verification: ${failed.join(', ')}`);
+    process.exitCode = 1;
+  } else {
+    console.log(`✓ ${selected.length === 1 ? 'The backup restores' : `All ${selected.length} backups restore`} with the expected row counts.`);
+  }
+}
+
+async function pruneCommand(): Promise<void> {
+  const backups = await listBackups(backupDir);
+  const policy = retention as RetentionPolicy;
+  const { keep, remove } = planRetention(backups, policy);
+
+  console.log(`Retention: ${policy.daily} daily, ${policy.weekly} weekly, ${policy.monthly} monthly\n`);
+  for (const backup of backups) {
+    const reasons = keep.get(backup);
+    console.log(reasons ? `  ✓ ${backup.file} (${reasons.join(', ')})` : `  - ${backup.file}`);
+  }
+  console.log('');
+
+  if (remove.length === 0) {
+    console.log(`Nothing to prune, keeping all ${backups.length} backups.`);
+    return;
+  }
+
+  const bytes = remove.reduce((sum, b) => sum + b.bytes, 0);
+  if (args['dry-run']) {
+    console.log(`Would remove ${remove.length} backups (${formatSize(bytes)}), keeping ${keep.size}.`);
+    return;
+  }
+
+  for (const backup of remove) {
+    await removeBackup(backup);
+  }
+  console.log(`✓ Removed ${remove.length} backups (${formatSize(bytes)}), keeping ${keep.size}.`);
+}
+
+async function restoreCommand(): Promise<void> {
+  const sql = connect(target!);
+  let lock: WriteLock | null = null;
+
+  try {
+    const file = resolveBackup(files[0], await listBackups(backupDir));
+    const dump = await detectDumpFormat(file);
+    const manifest = await readManifest(file);
+
+    console.log(`Restoring ${file}`);
+    console.log(`into ${describeTarget(target!)}\n`);
+
+    const acquired = await acquireWriteLock(sql, 'backup', lockWait!);
+    if (!acquired.lock) {
+      throw new Error(describeHolder(acquired.holder));
+    }
+    lock = acquired.lock;
+
+    const tools = await getTools(target!, ['psql', 'pg_restore']);
+
+    if (manifest) {
+      await verifyDump(dump, manifest);
+      console.log('✓ Checksum matches the manifest.');
+    } else {
+      console.log('! The backup has no manifest yet, so its checksum can\'t be checked.');
+    }
+    const expected = manifest?.tables ?? (dump.format === 'plain' ? await countDumpRows(dump) : null);
+
+    // The backup service's dumps don't drop existing objects themselves
+    if (dump.format === 'plain' && !dump.clean) {
+      console.log('Dropping the existing schema...');
+      await sql.begin(async (tx) => {
+        // Don't list every dropped object
+        await tx`SET LOCAL client_min_messages = warning`;
+        await tx`DROP SCHEMA public CASCADE`;
+        // As created with the database, so the restore grants the same access
+        await tx`CREATE SCHEMA public`;
+        await tx`ALTER SCHEMA public OWNER TO pg_database_owner`;
+        await tx`GRANT USAGE ON SCHEMA public TO PUBLIC`;
+      });
+    }
+
+    console.log(`Restoring the backup (${dump.format === 'plain' ? 'psql' : 'pg_restore'})...`);
+    console.log('This may take a few minutes depending on the size of the backup.\n');
+    await restoreDump(dump, tools, target!.database, { clean: true });
+    console.log('✓ Backup restored.\n');
+
+    const counts = await countRows(sql);
+    for (const [table, count] of Object.entries(counts)) {
+      console.log(`  ${table.padEnd(20)} ${count.toLocaleString()}`);
+    }
+
+    if (expected) {
+      const mismatches = compareCounts(expected, counts);
+      if (mismatches.length > 0) {
+        throw new Error(`Row counts don't match the ${manifest ? 'manifest' : 'backup'} (${describeMismatches(mismatches)})`);
+      }
+      console.log(`\n✓ Row counts match the ${manifest ? 'manifest' : 'backup'} (${Object.keys(expected).length} tables).`);
+    }
+
+  } finally {
+    await lock?.release();
+    await sql.end();
+  }
+}
+
+/**
+ * Takes a backup of the database, as a custom-format archive with a manifest,
+ * copies it to latest-backup.dump, and prunes the backups the retention
+ * policy no longer keeps. Records the outcome in the status.
+ */
+async function takeBackup(
+  sql: postgres.Sql,
+  tools: Tools,
+  watermark: WriteWatermark,
+  status: BackupStatus
+): Promise<void> {
+  const startedAt = new Date();
+  const file = path.join(backupDir, backupFileName(startedAt));
+
+  try {
+    const details = await dumpDatabase(sql, tools, target!.database, file, ['--format=custom']);
+    const dump = { path: file, format: 'custom', gzip: false } as const;
+    const manifest = await createManifest('backup', dump, target!.database, details, { createdAt: startedAt });
+    await writeManifest(file, manifest);
+
+    const latest = path.join(backupDir, LATEST_BACKUP);
+    await copyFile(file, latest);
+    await writeManifest(latest, { ...manifest, file: LATEST_BACKUP });
+
+    status.lastSuccessAt = new Date().toISOString();
+    status.lastBackup = path.basename(file);
+    status.watermark = watermark;
+
+    const { remove } = planRetention(await listBackups(backupDir), retention as RetentionPolicy);
+    for (const backup of remove) {
+      await removeBackup(backup);
+    }
+
+    console.log(JSON.stringify({
+      event: 'backup',
+      status: 'completed',
+      file: path.basename(file),
+      bytes: manifest.bytes,
+      rows: Object.values(manifest.tables).reduce((sum, count) => sum + count, 0),
+      durationMs: Date.now() - startedAt.getTime(),
+      pruned: remove.map(backup => backup.file),
+    }));
+  } catch (err) {
+    // Don't leave a partial backup behind that looks like a usable one
+    await unlink(file).catch(() => {});
+
+    status.lastFailureAt = new Date().toISOString();
+    status.lastError = (err as Error).message;
+
+    console.log(JSON.stringify({
+      event: 'backup',
+      status: 'failed',
+      file: path.basename(file),
+      durationMs: Date.now() - startedAt.getTime(),
+      error: String(err),
+    }));
+  }
+}
+
+/**
+ * Takes a base backup into the WAL directory, and removes the base backups
+ * and archived WAL beyond --keep-base. Records the outcome in the status.
+ */
+async function takeBase(sql: postgres.Sql, status: BackupStatus): Promise<void> {
+  const startedAt = Date.now();
+
+  try {
+    const backup = await takeBaseBackup(sql, target!, walDir);
+    status.lastBaseBackupAt = backup.finishedAt.toISOString();
+    status.lastBaseBackup = backup.id;
+
+    const { removed, walFiles } = await pruneBaseBackups(walDir, keepBase!);
+
+    console.log(JSON.stringify({
+      event: 'base-backup',
+      status: 'completed',
+      id: backup.id,
+      bytes: backup.bytes,
+      durationMs: Date.now() - startedAt,
+      pruned: removed.map(b => b.id),
+      prunedWal: walFiles,
+    }));
+  } catch (err) {
+    status.lastBaseFailureAt = new Date().toISOString();
+    status.lastBaseError = (err as Error).message;
+
+    console.log(JSON.stringify({
+      event: 'base-backup',
+      status: 'failed',
+      durationMs: Date.now() - startedAt,
+      error: String(err),
+    }));
+  }
+}
+
+/**
+ * Checks for writes every interval until stopped by SIGTERM or SIGINT, and
+ * backs up once writes have stopped for a while, at most every minInterval.
+ * Writes are told apart by the watermark of the user tables' row counters,
+ * which reads don't change. Base backups are taken every baseInterval,
+ * whether or not there were writes.
+ */
+async function watchCommand(): Promise<void> {
+  // The statistics and the snapshot pg_dump exports from are on the primary
+  const sql = connect(target!, { direct: true });
+
+  const shutdown = new AbortController();
+  let stopRequested = false;
+  const requestStop = (signal: string) => {
+    if (stopRequested) {
+      console.error(`Received ${signal} again, exiting immediately.`);
+      process.exit(1);
+    }
+    console.log(`\nReceived ${signal}, stopping after the current backup...`);
+    stopRequested = true;
+    shutdown.abort();
+  };
+  process.on('SIGTERM', () => requestStop('SIGTERM'));
+  process.on('SIGINT', () => requestStop('SIGINT'));
+
+  // A failed backup is retried after this long, rather than at every check
+  const RETRY_DELAY_MS = 5 * 60_000;
+
+  try {
+    const tools = await getTools(target!, ['pg_dump']);
+
+    let takeBaseBackups = baseInterval! > 0;
+    if (takeBaseBackups && !fs.existsSync(walDir)) {
+      console.log(`! WAL directory not found at ${walDir}, so no base backups will be taken.`);
+      takeBaseBackups = false;
+    }
+
+    const status: BackupStatus = {
+      lastSuccessAt: null,
+      lastBackup: null,
+      lastFailureAt: null,
+      lastError: null,
+      watermark: null,
+      lastBaseBackupAt: null,
+      lastBaseBackup: null,
+      lastBaseFailureAt: null,
+      lastBaseError: null,
+      archiver: null,
+      ...await readStatus(backupDir),
+      intervalMs: checkInterval!,
+      baseIntervalMs: takeBaseBackups ? baseInterval! : null,
+      checkedAt: new Date().toISOString(),
+    };
+
+    console.log(`Backing up ${describeTarget(target!, tools)} to ${backupDir}.`);
+    // Plain numbers are seconds
+    const show = (value: string) => /^[\d.]+$/.test(value) ? `${value}s` : value;
+    console.log(
+      `Checking for writes every ${show(args['interval'])}, backing up ${show(args['after-write'])} after the last write, ` +
+      `at most every ${show(args['min-interval'])}.`
+    );
+    if (takeBaseBackups) {
+      console.log(`Taking a base backup every ${show(args['base-interval'])} into ${walDir}, keeping ${keepBase}.`);
+    }
+    console.log('');
+
+    let lastSeen: WriteWatermark | null = null;
+    // Writes made while the service was stopped count from its start
+    let lastWriteAt = Date.now();
+
+    while (!stopRequested) {
+      try {
+        const watermark = await getWriteWatermark(sql);
+        const now = Date.now();
+        if (lastSeen && !sameWatermark(watermark, lastSeen)) {
+          lastWriteAt = now;
+        }
+        lastSeen = watermark;
+        status.checkedAt = new Date(now).toISOString();
+
+        const pending = !status.watermark || !sameWatermark(watermark, status.watermark);
+        const sinceBackup = status.lastSuccessAt ? now - Date.parse(status.lastSuccessAt) : Infinity;
+        const failed = status.lastFailureAt !== null &&
+          (!status.lastSuccessAt || status.lastFailureAt > status.lastSuccessAt) &&
+          now - Date.parse(status.lastFailureAt) < RETRY_DELAY_MS;
+
+        if (pending && !failed && now - lastWriteAt >= afterWrite! && sinceBackup >= minInterval!) {
+          await takeBackup(sql, tools, watermark, status);
+        }
+
+        if (takeBaseBackups && !stopRequested) {
+          const [newest] = await listBaseBackups(walDir);
+          // After a point-in-time restore, the newest base backup is from the timeline it abandoned
+          const due = !newest ||
+            now - newest.finishedAt.getTime() >= baseInterval! ||
+            newest.timeline !== await getTimeline(sql);
+          const baseFailed = status.lastBaseFailureAt !== null &&
+            (!status.lastBaseBackupAt || status.lastBaseFailureAt > status.lastBaseBackupAt) &&
+            now - Date.parse(status.lastBaseFailureAt) < RETRY_DELAY_MS;
+
+          if (due && !baseFailed) {
+            await takeBase(sql, status);
+          }
+        }
+
+        status.archiver = await getArchiverStatus(sql);
+        await writeStatus(backupDir, status);
+      } catch (err) {
+        console.error(`✗ Checking for writes failed: ${(err as Error).message}`);
+      }
+
+      if (!stopRequested) {
+        await sleep(checkInterval!, undefined, { signal: shutdown.signal }).catch(() => {});
+      }
+    }
+
+    console.log('Watch stopped.');
+  } finally {
+    await sql.end();
+  }
+}
+
+async function statusCommand(): Promise<void> {
+  const status = await readStatus(backupDir);
+  const problems = checkStatus(status, maxAge);
+
+  if (status) {
+    console.log(`Backup service status (${path.join(backupDir, STATUS_FILE)}):`);
+    console.log(`  Last check:   ${status.checkedAt} (${formatAge(new Date(status.checkedAt))} ago)`);
+    console.log(status.lastSuccessAt
+      ? `  Last backup:  ${status.lastBackup} at ${status.lastSuccessAt} (${formatAge(new Date(status.lastSuccessAt))} ago)`
+      : '  Last backup:  none');
+    if (status.lastFailureAt) {
+      console.log(`  Last failure: ${status.lastFailureAt}: ${status.lastError}`);
+    }
+    if (status.baseIntervalMs) {
+      console.log(status.lastBaseBackupAt
+        ? `  Base backup:  ${status.lastBaseBackup} at ${status.lastBaseBackupAt} (${formatAge(new Date(status.lastBaseBackupAt))} ago)`
+        : '  Base backup:  none');
+    }
+    if (status.archiver) {
+      console.log(status.archiver.lastArchivedAt
+        ? `  WAL archive:  ${status.archiver.lastArchivedWal} at ${status.archiver.lastArchivedAt}`
+        : '  WAL archive:  nothing archived yet');
+    }
+    console.log('');
+  }
+
+  if (problems.length > 0) {
+    problems.forEach(problem => console.log(`✗ ${problem}`));
+    process.exitCode = 1;
+  } else {
+    console.log('✓ The backup service is healthy.');
+  }
+}
+
+async function baseCommand(): Promise<void> {
+  // pg_basebackup copies the primary's data directory
+  const sql = connect(target!, { direct: true });
+
+  try {
+    if (!fs.existsSync(walDir)) {
+      throw new Error(`WAL directory not found: ${walDir}`);
+    }
+    if (!await getArchiverStatus(sql)) {
+      console.log('! WAL archiving is off on this server, so the base backup can only restore the moment it was taken.');
+    }
+
+    console.log(`Taking a base backup of ${describeTarget(target!)} into ${walDir}...`);
+    const backup = await takeBaseBackup(sql, target!, walDir);
+    console.log(`✓ Base backup ${backup.id} taken (${formatSize(backup.bytes)}).`);
+
+    const { removed, walFiles } = await pruneBaseBackups(walDir, keepBase!);
+    if (removed.length > 0 || walFiles > 0) {
+      console.log(
+        `✓ Removed ${removed.length} older base backup${removed.length === 1 ? '' : 's'} and ` +
+        `${walFiles} archived WAL segment${walFiles === 1 ? '' : 's'}, keeping ${keepBase}.`
+      );
+    }
+  } finally {
+    await sql.end();
+  }
+}
+
+async function main(): Promise<void> {
+  try {
+    if (!fs.existsSync(backupDir)) {
+      throw new Error(`Backup directory not found: ${backupDir}`);
+    }
+
+    switch (command!) {
+      case 'watch':
+        await watchCommand();
+        break;
+      case 'status':
+        await statusCommand();
+        break;
+      case 'list':
+        await listCommand();
+        break;
+      case 'verify':
+        await verifyCommand();
+        break;
+      case 'prune':
+        await pruneCommand();
+        break;
+      case 'restore':
+        await restoreCommand();
+        break;
+      case 'base':
+        await baseCommand();
+        break;
+    }
+  } catch (err) {
+    console.error(`Error running backup ${command}:`, err);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,431 @@
+import postgres from 'postgres';
+import dotenv from 'dotenv';
+import fs from 'node:fs';
+import path from 'node:path';
+import { once } from 'node:events';
+import { parseArgs } from 'node:util';
+import { ParquetWriter, fileWriter, schemaFromColumnData, type BasicType } from 'hyparquet-writer';
+import {
+  SUBSET_TABLES,
+  describeFilters,
+  eventFilter,
+  hasFilters,
+  resolveFilters,
+  type EventFilters,
+} from './lib/filters.ts';
+import { connect, describeTarget, resolveTarget, type Target } from './lib/target.ts';
+
+dotenv.config();
+
+/**
+ * Exports each table to a flat file for analysis (CSV, NDJSON or Parquet),
+ * along with a manifest.json describing the files.
+ *
+ * Usage:
+ *   pnpm run export-data [output-dir] [options] [filters]
+ *
+ * Options:
+ *   --as <type>       File type: csv (default), ndjson or parquet
+ *   --shape <shape>   How to export deck cards and match games:
+ *                       nested  As JSON columns of decks and matches (default)
+ *                       long    As separate deck_cards and match_games tables
+ *   --target <target> Export this database instead of the one in .env: a
+ *                     connection string, or a name set as POSTGRES_TARGET_<NAME>
+ *
+ * Filters (repeatable or comma-separated):
+ *   --since <date>    Only export events on or after this date (YYYY-MM-DD or e.g. 30d)
+ *   --until <date>    Only export events on or before this date (YYYY-MM-DD)
+ *   --format <name>   Only export events of this format (e.g. Pioneer)
+ *   --kind <name>     Only export events of this kind (e.g. Challenge)
+ *   --event <id>      Only export these events
+ */
+
+const MANIFEST_VERSION = 1;
+
+// Rows fetched and written at a time
+const BATCH_SIZE = 10000;
+
+type FileType = 'csv' | 'ndjson' | 'parquet';
+type Shape = 'nested' | 'long';
+type ColumnType = 'int' | 'float' | 'bool' | 'text' | 'json';
+
+const FILE_TYPES: readonly FileType[] = ['csv', 'ndjson', 'parquet'];
+const SHAPES: readonly Shape[] = ['nested', 'long'];
+
+const PARQUET_TYPES: Record<ColumnType, BasicType> = {
+  int: 'INT32',
+  float: 'DOUBLE',
+  bool: 'BOOLEAN',
+  text: 'STRING',
+  json: 'JSON',
+};
+
+interface ExportColumn {
+  name: string;
+  type: ColumnType;
+}
+
+interface ExportTable {
+  name: string;
+  columns: ExportColumn[];
+  query: string;
+}
+
+interface ManifestFile {
+  table: string;
+  file: string;
+  rows: number;
+  bytes: number;
+  columns: ExportColumn[];
+}
+
+interface Manifest {
+  manifestVersion: number;
+  tool: 'export-data';
+  createdAt: string;
+  database: string;
+  fileType: FileType;
+  shape: Shape;
+  // null for a full export
+  filters: EventFilters | null;
+  events: number;
+  files: ManifestFile[];
+}
+
+interface TableWriter {
+  write(rows: postgres.Row[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Columns of the nested shape that the long shape moves to their own table
+const LONG_COLUMNS: Record<string, string[]> = {
+  decks: ['mainboard', 'sideboard'],
+  matches: ['games'],
+};
+
+// Long-form tables, with the table whose rows they expand
+const LONG_TABLES: { name: string; parent: string; columns: ExportColumn[]; select: string }[] = [
+  {
+    name: 'deck_cards',
+    parent: 'decks',
+    columns: [
+      { name: 'deck_id', type: 'int' },
+      { name: 'board', type: 'text' },
+      { name: 'card_id', type: 'int' },
+      { name: 'card_name', type: 'text' },
+      { name: 'quantity', type: 'int' },
+    ],
+    select: `
+      SELECT d.id AS deck_id, b.board, c.id AS card_id, c.name AS card_name, c.quantity
+      FROM public.decks d
+      CROSS JOIN LATERAL (VALUES ('mainboard', d.mainboard), ('sideboard', d.sideboard)) b(board, cards)
+      CROSS JOIN LATERAL unnest(b.cards) c
+    `,
+  },
+  {
+    name: 'match_games',
+    parent: 'matches',
+    columns: [
+      { name: 'event_id', type: 'int' },
+      { name: 'round', type: 'int' },
+      { name: 'player', type: 'text' },
+      { name: 'game', type: 'int' },
+      { name: 'game_id', type: 'int' },
+      { name: 'result', type: 'text' },
+    ],
+    select: `
+      SELECT m.event_id, m.round, m.player, g.game::int AS game, g.id AS game_id, g.result::text AS result
+      FROM public.matches m
+      CROSS JOIN LATERAL unnest(m.games) WITH ORDINALITY g(id, result, game)
+    `,
+  },
+];
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    'as': { type: 'string', default: 'csv' },
+    'shape': { type: 'string', default: 'nested' },
+    'since': { type: 'string' },
+    'until': { type: 'string' },
+    'format': { type: 'string', multiple: true, default: [] },
+    'kind': { type: 'string', multiple: true, default: [] },
+    'event': { type: 'string', multiple: true, default: [] },
+    'target': { type: 'string' },
+  },
+});
+
+const fileType = args['as'].toLowerCase() as FileType;
+const shape = args['shape'].toLowerCase() as Shape;
+
+if (!FILE_TYPES.includes(fileType) || !SHAPES.includes(shape)) {
+  console.error('Usage: pnpm export-data [output-dir] [--as csv|ndjson|parquet] [--shape nested|long] [filters] [--target <target>]');
+  console.error('\nExports each table to a flat file for analysis, with a manifest.json describing the files.');
+  console.error('\nOptions:');
+  console.error('  --as <type>       File type: csv (default), ndjson or parquet');
+  console.error('  --shape <shape>   How to export deck cards and match games:');
+  console.error('                      nested  As JSON columns of decks and matches (default)');
+  console.error('                      long    As separate deck_cards and match_games tables');
+  console.error('  --target <target> Export this database instead of the one in .env: a');
+  console.error('                    connection string, or a name set as POSTGRES_TARGET_<NAME>');
+  console.error('\nFilters (repeatable or comma-separated):');
+  console.error('  --since <date>    Only export events on or after this date (YYYY-MM-DD or e.g. 30d)');
+  console.error('  --until <date>    Only export events on or before this date (YYYY-MM-DD)');
+  console.error('  --format <name>   Only export events of this format (e.g. Pioneer)');
+  console.error('  --kind <name>     Only export events of this kind (e.g. Challenge)');
+  console.error('  --event <id>      Only export these events');
+  process.exit(1);
+}
+
+const outputDir = path.resolve(process.cwd(), positionals[0] || 'export');
+
+let target: Target;
+try {
+  target = resolveTarget(args['target']);
+} catch (err) {
+  console.error(`Error: ${(err as Error).message}`);
+  process.exit(1);
+}
+
+const sql = connect(target);
+
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function columnType(dataType: string): ColumnType {
+  switch (dataType) {
+    case 'integer':
+    case 'smallint':
+      return 'int';
+    case 'real':
+    case 'double precision':
+    case 'numeric':
+      return 'float';
+    case 'boolean':
+      return 'bool';
+    case 'ARRAY':
+      return 'json';
+    default:
+      return 'text';
+  }
+}
+
+// Arrays of composite types (cards, games) become JSON arrays of objects, and
+// everything without a flat file equivalent (dates, enums) becomes text
+function columnExpression(column: ExportColumn): string {
+  const name = quoteIdent(column.name);
+  switch (column.type) {
+    case 'float':
+      return `${name}::float8`;
+    case 'json':
+      return `to_jsonb(${name})`;
+    case 'text':
+      return `${name}::text`;
+    default:
+      return name;
+  }
+}
+
+/**
+ * Lists the tables to export with their columns and queries, given the
+ * condition selecting the rows of each table.
+ */
+async function getExportTables(
+  tx: postgres.TransactionSql,
+  condition: (table: string) => string
+): Promise<ExportTable[]> {
+  const tables: ExportTable[] = [];
+
+  for (const table of Object.keys(SUBSET_TABLES)) {
+    const rows = await tx<{ column_name: string; data_type: string }[]>`
+      SELECT column_name, data_type FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = ${table}
+      ORDER BY ordinal_position;
+    `;
+    const columns = rows
+      .map(r => ({ name: r.column_name, type: columnType(r.data_type) }))
+      .filter(c => shape === 'nested' || !LONG_COLUMNS[table]?.includes(c.name));
+
+    tables.push({
+      name: table,
+      columns,
+      query: `
+        SELECT ${columns.map(c => `${columnExpression(c)} AS ${quoteIdent(c.name)}`).join(', ')}
+        FROM public.${table}
+        WHERE ${condition(table)}
+      `,
+    });
+  }
+
+  if (shape === 'long') {
+    for (const long of LONG_TABLES) {
+      tables.push({
+        name: long.name,
+        columns: long.columns,
+        query: `${long.select} WHERE ${condition(long.parent)}`,
+      });
+    }
+  }
+
+  return tables;
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function openLineWriter(file: string, header: string | null, format: (row: postgres.Row) => string): TableWriter {
+  const stream = fs.createWriteStream(file);
+  if (header !== null) {
+    stream.write(header + '\n');
+  }
+
+  return {
+    write: async (rows) => {
+      if (!stream.write(rows.map(row => format(row) + '\n').join(''))) {
+        await once(stream, 'drain');
+      }
+    },
+    close: () => new Promise((resolve, reject) => {
+      stream.on('error', reject);
+      stream.end(resolve);
+    }),
+  };
+}
+
+function openParquetWriter(file: string, columns: ExportColumn[]): TableWriter {
+  const columnData = (rows: postgres.Row[]) => columns.map(c => ({
+    name: c.name,
+    data: rows.map(row => row[c.name]),
+    type: PARQUET_TYPES[c.type],
+  }));
+  const writer = new ParquetWriter({
+    writer: fileWriter(file),
+    schema: schemaFromColumnData({ columnData: columnData([]) }),
+  });
+
+  return {
+    write: async (rows) => {
+      await writer.write({ columnData: columnData(rows), rowGroupSize: BATCH_SIZE });
+    },
+    close: async () => {
+      writer.finish();
+    },
+  };
+}
+
+function openTableWriter(file: string, columns: ExportColumn[]): TableWriter {
+  switch (fileType) {
+    case 'csv':
+      return openLineWriter(
+        file,
+        columns.map(c => csvField(c.name)).join(','),
+        row => columns.map(c => csvField(row[c.name])).join(',')
+      );
+    case 'ndjson':
+      return openLineWriter(file, null, row => JSON.stringify(row));
+    case 'parquet':
+      return openParquetWriter(file, columns);
+  }
+}
+
+async function exportData(): Promise<void> {
+  const written: string[] = [];
+
+  try {
+    console.log('='.repeat(60));
+    console.log('MTGO Data Export');
+    console.log('='.repeat(60));
+    console.log(`Output: ${outputDir} (${fileType}, ${shape})`);
+    console.log(`Database: ${describeTarget(target)}`);
+
+    const filters = await resolveFilters(sql, args);
+    const filtered = hasFilters(filters);
+    if (filtered) {
+      console.log(`Filters: ${describeFilters(filters)}`);
+    }
+    console.log('');
+
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    const manifest: Manifest = {
+      manifestVersion: MANIFEST_VERSION,
+      tool: 'export-data',
+      createdAt: new Date().toISOString(),
+      database: target.database,
+      fileType,
+      shape,
+      filters: filtered ? filters : null,
+      events: 0,
+      files: [],
+    };
+
+    // All tables are read from one snapshot, so they reference each other
+    // consistently even while a sync is writing
+    await sql.begin('isolation level repeatable read read only', async (tx) => {
+      const events = await tx<{ id: number }[]>`
+        SELECT id FROM events
+        WHERE true ${eventFilter(tx, filters)}
+        ORDER BY id;
+      `;
+      if (events.length === 0) {
+        throw new Error(filtered ? 'No events match the filters' : 'The database has no events');
+      }
+      manifest.events = events.length;
+      console.log(`Exporting ${events.length.toLocaleString()} events...`);
+
+      // The (integer) IDs are inlined, as the conditions are plain SQL
+      const eventIds = `'{${events.map(e => e.id).join(',')}}'::int[]`;
+      const condition = (table: string) => filtered ? SUBSET_TABLES[table](eventIds) : 'true';
+
+      for (const table of await getExportTables(tx, condition)) {
+        const file = `${table.name}.${fileType}`;
+        const filePath = path.join(outputDir, file);
+        written.push(filePath);
+
+        const writer = openTableWriter(filePath, table.columns);
+        let rows = 0;
+        try {
+          for await (const batch of tx.unsafe(table.query).cursor(BATCH_SIZE)) {
+            await writer.write(batch);
+            rows += batch.length;
+          }
+        } finally {
+          await writer.close();
+        }
+
+        manifest.files.push({
+          table: table.name,
+          file,
+          rows,
+          bytes: fs.statSync(filePath).size,
+          columns: table.columns,
+        });
+        console.log(`  ✓ ${file}: ${rows.toLocaleString()} rows`);
+      }
+    });
+
+    const manifestPath = path.join(outputDir, 'manifest.json');
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+
+    console.log('');
+    console.log('='.repeat(60));
+    console.log('Export complete!');
+    console.log('='.repeat(60));
+    console.log(`Files:    ${manifest.files.length} (${manifest.files.reduce((a, f) => a + f.rows, 0).toLocaleString()} rows)`);
+    console.log(`Manifest: ${manifestPath}`);
+
+  } catch (err) {
+    // Don't leave a partial export behind that looks like a usable one
+    written.forEach(file => fs.rmSync(file, { force: true }));
+    console.error('\nError exporting data:', err);
+    process.exitCode = 1;
+  } finally {
+    await sql.end();
+  }
+}
+
+exportData();
@@ -1,11 +1,79 @@
-import { spawn } from 'node:child_process';
 import dotenv from 'dotenv';
 import fs from 'node:fs';
 import path from 'node:path';
+import { Writable } from 'node:stream';
+import { parseArgs } from 'node:util';
+import {
+  SUBSET_TABLES,
+  describeFilters,
+  eventFilter,
+  hasFilters,
+  resolveFilters,
+  type EventFilters,
+} from './lib/filters.ts';
+import { copyOut } from './lib/copy.ts';
+import { dumpDatabase, runPgDump } from './lib/dump.ts';
+import { createManifest, getSchemaVersion, writeManifest, type ManifestDetails } from './lib/manifest.ts';
+import { getMigrationVersion } from './lib/migrations.ts';
+import { connect, describeTarget, getTools, resolveTarget, type Target, type Tools } from './lib/target.ts';
 
 dotenv.config();
 
-const outputFile = process.argv[2] || 'postgres/dump/mtgo_dump.sql';
+/**
+ * Exports the database to a plain SQL dump with pg_dump, or only the events
+ * matching the given filters.
+ *
+ * Usage:
+ *   pnpm run export-dump [output-file] [filters] [--target <target>]
+ *
+ * Options:
+ *   --target <target> Export this database instead of the one in .env: a
+ *                     connection string, or a name set as POSTGRES_TARGET_<NAME>
+ *
+ * Filters (repeatable or comma-separated):
+ *   --since <date>    Only export events on or after this date (YYYY-MM-DD or e.g. 30d)
+ *   --until <date>    Only export events on or before this date (YYYY-MM-DD)
+ *   --format <name>   Only export events of this format (e.g. Pioneer)
+ *   --kind <name>     Only export events of this kind (e.g. Challenge)
+ *   --event <id>      Only export these events
+ *
+ * A filtered export contains the full schema, the matching events, and the
+ * standings, matches, decks, archetypes and players they reference, so it
+ * loads like a full dump into import-dump and merge-dump.
+ *
+ * Every dump is written with a manifest (<output-file>.manifest.json) holding
+ * its checksum and row counts, which import-dump and merge-dump verify.
+ */
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    'since': { type: 'string' },
+    'until': { type: 'string' },
+    'format': { type: 'string', multiple: true, default: [] },
+    'kind': { type: 'string', multiple: true, default: [] },
+    'event': { type: 'string', multiple: true, default: [] },
+    'target': { type: 'string' },
+  },
+});
+
+let target: Target;
+try {
+  target = resolveTarget(args['target']);
+} catch (err) {
+  console.error(`Error: ${(err as Error).message}`);
+  process.exit(1);
+}
+
+const subset = args['since'] !== undefined ||
+  args['until'] !== undefined ||
+  args['format'].length > 0 ||
+  args['kind'].length > 0 ||
+  args['event'].length > 0;
+
+// Subsets don't go to postgres/dump/ by default, where they would be imported
+// alongside the full dump when the database is first created
+const outputFile = positionals[0] || (subset ? 'mtgo_subset.sql' : 'postgres/dump/mtgo_dump.sql');
 const outputPath = path.resolve(process.cwd(), outputFile);
 const outputDir = path.dirname(outputPath);
 
@@ -14,87 +82,179 @@ if (!fs.existsSync(outputDir)) {
   fs.mkdirSync(outputDir, { recursive: true });
 }
 
-console.log(`Exporting database to: ${outputPath}`);
+const sql = connect(target);
+
+console.log(`Exporting ${subset ? 'a subset of the database' : 'database'} to: ${outputPath}`);
 console.log('This may take a few minutes depending on the size of your database.\n');
 
-async function exportDump(): Promise<void> {
+// pg_dump options of every export
+const PG_DUMP_OPTIONS = ['--format=plain', '--no-owner', '--no-privileges'];
+
+/**
+ * Runs pg_dump for the schema only, which a subset export fills in with the
+ * selected rows.
+ */
+async function dumpSchema(tools: Tools): Promise<string> {
+  let stdout = '';
+  const collect = new Writable({
+    write(chunk, _encoding, callback) {
+      stdout += chunk.toString();
+      callback();
+    },
+  });
+  await runPgDump(tools, target.database, [...PG_DUMP_OPTIONS, '--schema-only', '--clean', '--if-exists'], collect);
+  return stdout;
+}
+
+/**
+ * Writes the manifest next to the finished dump, with the details gathered in
+ * the snapshot the dump was made from.
+ */
+async function writeDumpManifest(details: ManifestDetails, filters: EventFilters | null): Promise<void> {
+  console.log('\nWriting manifest...');
+  const dump = { path: outputPath, format: 'plain', gzip: false } as const;
+  const manifest = await createManifest('export-dump', dump, target.database, details, { filters });
+  const file = await writeManifest(outputPath, manifest);
+  console.log(`✓ Manifest: ${file}`);
+
+  console.log('\nTable counts:');
+  for (const [table, count] of Object.entries(manifest.tables)) {
+    console.log(`  ${table.padEnd(20)} ${count.toLocaleString()}`);
+  }
+}
+
+/**
+ * Writes the schema and the rows of the selected events as a plain SQL dump,
+ * in the same layout as pg_dump. All rows are read in one snapshot, so the
+ * subset is consistent even while a sync is writing.
+ */
+async function exportSubset(tools: Tools): Promise<void> {
+  let writeStream: fs.WriteStream | null = null;
+
   try {
-    // Check if Docker container is running
-    const checkArgs = ['ps', '--filter', 'name=postgres-prod', '--format', '{{.Names}}'];
-    const check = spawn('docker', checkArgs, { stdio: 'pipe' });
-
-    let containerRunning = false;
-    check.stdout.on('data', (data) => {
-      if (data.toString().trim() === 'postgres-prod') {
-        containerRunning = true;
+    const filters = await resolveFilters(sql, args);
+    if (!hasFilters(filters)) {
+      throw new Error('No filters given');
+    }
+    console.log(`Filters: ${describeFilters(filters)}\n`);
+
+    console.log('Running pg_dump for the schema...');
+    const schema = await dumpSchema(tools);
+    // pg_dump closes the dump with this comment, so the data goes before it
+    const footer = schema.lastIndexOf('--\n-- PostgreSQL database dump complete');
+    if (footer === -1) {
+      throw new Error('pg_dump output lacks the end of dump marker');
+    }
+
+    const counts: Record<string, number> = {};
+    writeStream = fs.createWriteStream(outputPath);
+    const output = writeStream;
+
+    const details = await sql.begin('isolation level repeatable read read only', async (tx) => {
+      // The rows are copied on connections of their own, reading this snapshot,
+      // which must be taken on the primary where those connect. Every query
+      // here reads the primary, so all of them see the same snapshot
+      const [{ snapshot }] = await tx<{ snapshot: string }[]>`/*NO LOAD BALANCE*/
+        SELECT pg_export_snapshot() AS snapshot;
+      `;
+
+      const events = await tx<{ id: number }[]>`/*NO LOAD BALANCE*/
+        SELECT id FROM events
+        WHERE true ${eventFilter(tx, filters)}
+        ORDER BY id;
+      `;
+      if (events.length === 0) {
+        throw new Error('No events match the filters');
       }
-    });
+      console.log(`Selected ${events.length.toLocaleString()} events.\n`);
 
-    await new Promise<void>((resolve) => {
-      check.on('close', () => resolve());
-    });
+      // COPY takes no parameters, so the (integer) IDs are inlined
+      const eventIds = `'{${events.map(e => e.id).join(',')}}'::int[]`;
 
-    if (!containerRunning) {
-      console.error('Error: postgres-prod container is not running.');
-      console.error('Start it with: pnpm start');
-      process.exit(1);
-    }
+      output.write(schema.slice(0, footer));
 
-    // Use Docker exec with pg_dump to export the database
-    const pgDumpArgs = [
-      'exec',
-      'postgres-prod',
-      'pg_dump',
-      '-U',
-      process.env.POSTGRES_USER!,
-      '-d',
-      process.env.POSTGRES_DB!,
-      '--clean',
-      '--if-exists',
-      '--format=plain',
-      '--no-owner',
-      '--no-privileges',
-    ];
+      // Along with the schema's migration records, so the subset has its migration version
+      const migrationVersion = await getMigrationVersion(tx);
+      const tables = migrationVersion === null ? SUBSET_TABLES : { ...SUBSET_TABLES, schema_migrations: () => 'true' };
 
-    console.log('Running pg_dump...');
-    const docker = spawn('docker', pgDumpArgs, {
-      stdio: ['ignore', 'pipe', 'pipe'],
-    });
+      console.log('Exporting rows...');
+      for (const [table, condition] of Object.entries(tables)) {
+        const columns = await tx<{ column_name: string }[]>`/*NO LOAD BALANCE*/
+          SELECT column_name FROM information_schema.columns
+          WHERE table_schema = 'public' AND table_name = ${table}
+          ORDER BY ordinal_position;
+        `;
+        const list = columns.map(c => c.column_name).join(', ');
+        const query = `SELECT ${list} FROM public.${table} WHERE ${condition(eventIds)}`;
 
-    // Create write stream for the output file
-    const writeStream = fs.createWriteStream(outputPath);
-    docker.stdout.pipe(writeStream);
+        const [{ count }] = await tx.unsafe(`/*NO LOAD BALANCE*/
+          SELECT COUNT(*)::int AS count FROM (${query}) s
+        `);
+        counts[table] = count;
 
-    let stderr = '';
-    docker.stderr.on('data', (data) => {
-      stderr += data.toString();
+        output.write(`\n--\n-- Data for Name: ${table}; Type: TABLE DATA; Schema: public\n--\n\n`);
+        output.write(`COPY public.${table} (${list}) FROM stdin;\n`);
+        await copyOut(target, `(${query})`, output, { direct: true, snapshot, end: false });
+        output.write('\\.\n\n');
+        console.log(`  ✓ ${table}: ${count.toLocaleString()}`);
+      }
+
+      output.write(`\n${schema.slice(footer)}`);
+
+      const [{ maxEventDate }] = await tx<{ maxEventDate: string }[]>`/*NO LOAD BALANCE*/
+        SELECT MAX(date)::text AS "maxEventDate" FROM events
+        WHERE id = ANY(${tx.array(events.map(e => e.id))}::int[]);
+      `;
+      return { schemaVersion: await getSchemaVersion(tx), migrationVersion, maxEventDate };
     });
 
     await new Promise<void>((resolve, reject) => {
-      docker.on('close', (code) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          if (stderr) {
-            console.error('Export errors:', stderr);
-          }
-          reject(new Error(`pg_dump exited with code ${code}`));
-        }
-      });
-
-      docker.on('error', (err) => {
-        reject(new Error(`Failed to spawn docker: ${err.message}`));
-      });
-
-      writeStream.on('error', (err) => {
-        reject(new Error(`Failed to write to file: ${err.message}`));
-      });
+      output.on('error', reject);
+      output.end(() => resolve());
     });
+    writeStream = null;
 
-    // Wait for write stream to finish
-    await new Promise<void>((resolve) => {
-      writeStream.end(() => resolve());
-    });
+    const stats = fs.statSync(outputPath);
+    const fileSizeMB = (stats.size / (1024 * 1024)).toFixed(2);
+    console.log(`\n✓ Subset exported successfully!\n`);
+    console.log(`File: ${outputPath}`);
+    console.log(`Size: ${fileSizeMB} MB`);
+
+    await writeDumpManifest({ ...details, tables: counts }, filters);
+
+    console.log('\n' + '='.repeat(60));
+    console.log('Export complete!');
+    console.log('='.repeat(60));
+    console.log('\nTo load the subset:');
+    console.log(`- Into an existing database: pnpm merge-dump ${outputFile}`);
+    console.log(`- Replacing a database:      pnpm import-dump ${outputFile}`);
+
+  } catch (err) {
+    // Don't leave a partial dump behind that looks like a usable one
+    if (writeStream) {
+      writeStream.destroy();
+      fs.rmSync(outputPath, { force: true });
+    }
+    throw err;
+  }
+}
+
+async function exportDump(): Promise<void> {
+  try {
+    const tools = await getTools(target, ['pg_dump']);
+    console.log(`Database: ${describeTarget(target, tools)}\n`);
+
+    if (subset) {
+      await exportSubset(tools);
+      return;
+    }
+
+    console.log('Running pg_dump...');
+    const details = await dumpDatabase(sql, tools, target.database, outputPath, [
+      ...PG_DUMP_OPTIONS,
+      '--clean',
+      '--if-exists',
+    ]);
 
     console.log('✓ Database exported successfully!\n');
 
@@ -104,39 +264,7 @@ async function exportDump(): Promise<void> {
     console.log(`File: ${outputPath}`);
     console.log(`Size: ${fileSizeMB} MB`);
 
-    // Show table counts
-    console.log('\nVerifying export with table counts...');
-    const verifyArgs = [
-      'exec',
-      'postgres-prod',
-      'psql',
-      '-U',
-      process.env.POSTGRES_USER!,
-      '-d',
-      process.env.POSTGRES_DB!,
-      '-t',
-      '-c',
-      `SELECT 
-        table_name, 
-        (xpath('/row/count/text()', xml_count))[1]::text::int as row_count
-       FROM (
-         SELECT 
-           table_name, 
-           table_schema,
-           query_to_xml(format('SELECT COUNT(*) AS count FROM %I.%I', table_schema, table_name), false, true, '') as xml_count
-         FROM information_schema.tables
-         WHERE table_schema = 'public' AND table_type = 'BASE TABLE'
-       ) t
-       ORDER BY table_name;`,
-    ];
-
-    const verify = spawn('docker', verifyArgs, { stdio: 'inherit' });
-
-    await new Promise<void>((resolve) => {
-      verify.on('close', () => {
-        resolve();
-      });
-    });
+    await writeDumpManifest(details, null);
 
     console.log('\n' + '='.repeat(60));
     console.log('Export complete!');
@@ -151,7 +279,9 @@ async function exportDump(): Promise<void> {
 
   } catch (err) {
     console.error('\nError exporting dump:', err);
-    process.exit(1);
+    process.exitCode = 1;
+  } finally {
+    await sql.end();
   }
 }
 
@@ -1,15 +1,44 @@
-import { spawn } from 'node:child_process';
 import dotenv from 'dotenv';
 import fs from 'node:fs';
 import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { acquireWriteLock, describeHolder, type WriteLock } from './lib/lock.ts';
+import { parseDuration } from './lib/duration.ts';
+import { describeDump, detectDumpFormat, restoreDump } from './lib/dump.ts';
+import { compareCounts, countRows, describeMismatches, readManifest, verifyDump } from './lib/manifest.ts';
+import { MIGRATIONS_DIR, getMigrationVersion, loadMigrations } from './lib/migrations.ts';
+import { connect, describeTarget, getTools, resolveTarget, type Target } from './lib/target.ts';
 
 dotenv.config();
 
-const dumpFile = process.argv[2];
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    'wait': { type: 'string' },
+    'target': { type: 'string' },
+  },
+});
+
+const dumpFile = positionals[0];
+const lockWait = args['wait'] ? parseDuration(args['wait'], 's') : 0;
+
+let target: Target | null = null;
+try {
+  target = resolveTarget(args['target']);
+} catch (err) {
+  console.error(`Error: ${(err as Error).message}\n`);
+}
 
-if (!dumpFile) {
-  console.error('Usage: pnpm run import-dump <dump-file>');
+if (!dumpFile || lockWait === null || !target) {
+  console.error('Usage: pnpm run import-dump <dump-file> [--wait <t>] [--target <target>]');
   console.error('Example: pnpm run import-dump postgres/dump/mtgo_dump.sql');
+  console.error('');
+  console.error('The dump may be plain SQL or a custom or tar archive, optionally gzip-compressed.');
+  console.error('');
+  console.error('Options:');
+  console.error('  --wait <t>        If another script is writing, wait up to this long (e.g. 5m)');
+  console.error('  --target <target> Import into this database instead of the one in .env: a');
+  console.error('                    connection string, or a name set as POSTGRES_TARGET_<NAME>');
   process.exit(1);
 }
 
@@ -20,99 +49,97 @@ if (!fs.existsSync(dumpPath)) {
   process.exit(1);
 }
 
-console.log(`Reading dump file: ${dumpPath}`);
-console.log('Importing database dump via Docker exec...');
-console.log('This may take a few minutes depending on the size of the dump.\n');
+// Connect to the target database (to hold the write lock)
+const sql = connect(target);
 
 async function importDump(): Promise<void> {
+  let lock: WriteLock | null = null;
+
   try {
-    // Use Docker exec with psql to import the dump
-    const psqlArgs = [
-      'exec',
-      '-i',
-      'postgres-prod',
-      'psql',
-      '-U',
-      process.env.POSTGRES_USER!,
-      '-d',
-      process.env.POSTGRES_DB!,
-    ];
-
-    const docker = spawn('docker', psqlArgs, {
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-
-    // Stream the dump file to psql
-    const dumpStream = fs.createReadStream(dumpPath);
-    dumpStream.pipe(docker.stdin);
-
-    let stdout = '';
-    let stderr = '';
-
-    docker.stdout.on('data', (data) => {
-      stdout += data.toString();
-    });
-
-    docker.stderr.on('data', (data) => {
-      const errorText = data.toString();
-      // Filter out ownership errors
-      if (!errorText.includes('role') && !errorText.includes('does not exist')) {
-        stderr += errorText;
+    // Make sure no other script is writing to the database
+    const acquired = await acquireWriteLock(sql, 'import-dump', lockWait!);
+    if (!acquired.lock) {
+      throw new Error(describeHolder(acquired.holder));
+    }
+    lock = acquired.lock;
+
+    const tools = await getTools(target!, ['psql', 'pg_restore']);
+    console.log(`Database: ${describeTarget(target!, tools)}`);
+
+    console.log(`Reading dump file: ${dumpPath}`);
+    const dump = await detectDumpFormat(dumpPath);
+    console.log(`Detected ${describeDump(dump)}.`);
+
+    const manifest = await readManifest(dumpPath);
+    if (manifest) {
+      console.log(`Verifying dump against its manifest (exported ${manifest.createdAt} on ${manifest.sourceHost})...`);
+      await verifyDump(dump, manifest);
+      console.log('✓ Checksum matches.');
+    } else {
+      console.log('! No manifest found next to the dump; its contents can\'t be verified.');
+    }
+
+    // The dump replaces the schema, which this checkout's migrations must know
+    const migrations = await loadMigrations();
+    const latestVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+    const dumpVersion = manifest?.migrationVersion ?? null;
+    if (dumpVersion !== null) {
+      const localVersion = await getMigrationVersion(sql);
+      console.log(`Schema: the dump is at migration ${dumpVersion}, the database at ${localVersion ?? 'none'}.`);
+      if (dumpVersion > latestVersion) {
+        throw new Error(
+          `The dump's schema is at migration ${dumpVersion}, newer than the latest one in ${MIGRATIONS_DIR} (${latestVersion}). ` +
+          'Update this checkout before importing it.'
+        );
       }
-    });
-
-    await new Promise<void>((resolve, reject) => {
-      docker.on('close', (code) => {
-        if (code === 0) {
-          console.log('✓ Database dump imported successfully!\n');
-          resolve();
-        } else {
-          if (stderr) {
-            console.error('Import errors:', stderr);
-          }
-          reject(new Error(`psql exited with code ${code}`));
-        }
-      });
-
-      docker.on('error', (err) => {
-        reject(new Error(`Failed to spawn docker: ${err.message}`));
-      });
-    });
-
-    // Verify import by counting tables
+    }
+
+    // Without DROP statements, restoring into existing tables fails table by table
+    if (dump.format === 'plain' && !dump.clean) {
+      const [{ count }] = await sql<{ count: number }[]>`
+        SELECT COUNT(*)::int AS count FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_type = 'BASE TABLE';
+      `;
+      if (count > 0) {
+        throw new Error(
+          'This dump was made without --clean, so it cannot replace the existing tables. ' +
+          'Use pnpm merge-dump to add its rows instead, or import it into an empty database.'
+        );
+      }
+    }
+
+    console.log(`Importing database dump ${tools.mode === 'docker' ? 'via Docker exec' : 'with local client tools'} (${dump.format === 'plain' ? 'psql' : 'pg_restore'})...`);
+    console.log('This may take a few minutes depending on the size of the dump.\n');
+
+    await restoreDump(dump, tools, target!.database, { clean: true });
+    console.log('✓ Database dump imported successfully!\n');
+
+    // Verify the import by counting rows
     console.log('Verifying import...');
-    const verifyArgs = [
-      'exec',
-      'postgres-prod',
-      'psql',
-      '-U',
-      process.env.POSTGRES_USER!,
-      '-d',
-      process.env.POSTGRES_DB!,
-      '-c',
-      `SELECT table_name, 
-              (SELECT COUNT(*) FROM information_schema.columns 
-               WHERE table_schema = 'public' AND table_name = t.table_name) as columns
-       FROM information_schema.tables t
-       WHERE table_schema = 'public' AND table_type = 'BASE TABLE'
-       ORDER BY table_name;`,
-    ];
-
-    const verify = spawn('docker', verifyArgs, { stdio: 'inherit' });
-
-    await new Promise<void>((resolve, reject) => {
-      verify.on('close', (code) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`Verification failed with code ${code}`));
-        }
-      });
-    });
+    const counts = await countRows(sql);
+    for (const [table, count] of Object.entries(counts)) {
+      console.log(`  ${table.padEnd(20)} ${count.toLocaleString()}`);
+    }
+
+    if (manifest) {
+      const mismatches = compareCounts(manifest.tables, counts);
+      if (mismatches.length > 0) {
+        throw new Error(`Row counts don't match the dump manifest (${describeMismatches(mismatches)})`);
+      }
+      console.log(`\n✓ Row counts match the manifest (${Object.keys(manifest.tables).length} tables).`);
+    }
+
+    const importedVersion = await getMigrationVersion(sql);
+    if (importedVersion !== null && importedVersion < latestVersion) {
+      console.log(`\n! The imported schema is at migration ${importedVersion}; bring it up to date with: pnpm run migrate up`);
+    }
 
   } catch (err) {
     console.error('Error importing dump:', err);
-    process.exit(1);
+    process.exitCode = 1;
+  } finally {
+    await lock?.release();
+    await sql.end();
   }
 }
 
@@ -0,0 +1,278 @@
+import postgres from 'postgres';
+import { createReadStream } from 'node:fs';
+import { readdir, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createInterface } from 'node:readline';
+import { createGunzip } from 'node:zlib';
+import type { DumpInfo } from './dump.ts';
+import { manifestPath, readManifest, type DumpManifest } from './manifest.ts';
+import type { ArchiverStatus } from './pitr.ts';
+
+/**
+ * Backups written by the backup service (`backup watch`) to postgres/dump/ as
+ * `backup-YYYY-MM-DD_HH-MM-SS.dump` custom-format archives (named in UTC), and
+ * their retention. Older versions of the service wrote plain `.sql` dumps,
+ * which are listed and pruned alike. `latest-backup.dump` is a copy of the
+ * newest backup, so it is not listed or pruned by itself.
+ *
+ * The service records its progress in backup-status.json, which health checks
+ * read through `backup status`. It also takes the base backups for
+ * point-in-time recovery (see pitr.ts), and records those there too.
+ */
+
+export const BACKUP_DIR = 'postgres/dump';
+
+export const LATEST_BACKUP = 'latest-backup.dump';
+
+export const STATUS_FILE = 'backup-status.json';
+
+export interface Backup {
+  file: string;
+  path: string;
+  createdAt: Date;
+  bytes: number;
+  manifest: DumpManifest | null;
+}
+
+// How many of the most recent days, ISO weeks and months keep a backup
+export interface RetentionPolicy {
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+export interface RetentionPlan {
+  // Backups to keep, with the reasons (e.g. "daily 2025-03-01")
+  keep: Map<Backup, string[]>;
+  remove: Backup[];
+}
+
+// Changes with every write to the database's tables
+export interface WriteWatermark {
+  // Rows inserted, updated and deleted in user tables since the stats were reset
+  writes: string;
+  tables: number;
+  statsReset: string | null;
+}
+
+export interface BackupStatus {
+  // How often the service checks for writes, to tell when it stopped
+  intervalMs: number;
+  checkedAt: string;
+  lastSuccessAt: string | null;
+  lastBackup: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  // Watermark at the start of the last successful backup
+  watermark: WriteWatermark | null;
+  // How often the service takes base backups for point-in-time recovery, if it does
+  baseIntervalMs: number | null;
+  lastBaseBackupAt: string | null;
+  lastBaseBackup: string | null;
+  lastBaseFailureAt: string | null;
+  lastBaseError: string | null;
+  // The primary's WAL archiving, if it is on
+  archiver: ArchiverStatus | null;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = { daily: 7, weekly: 4, monthly: 12 };
+
+const BACKUP_PATTERN = /^backup-(\d{4})-(\d{2})-(\d{2})_(\d{2})-(\d{2})-(\d{2})\.(sql|dump|tar)(\.gz)?$/;
+
+/**
+ * Lists the backups in a directory, newest first.
+ */
+export async function listBackups(dir: string): Promise<Backup[]> {
+  const backups: Backup[] = [];
+
+  for (const file of await readdir(dir)) {
+    const match = file.match(BACKUP_PATTERN);
+    if (!match) continue;
+
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    const filePath = path.join(dir, file);
+    const { size } = await stat(filePath);
+    backups.push({
+      file,
+      path: filePath,
+      createdAt: new Date(Date.UTC(year, month - 1, day, hour, minute, second)),
+      bytes: size,
+      manifest: await readManifest(filePath),
+    });
+  }
+
+  return backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+// YYYY-MM-DD_HH-MM-SS in UTC, as backups are named
+export function fileTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-');
+}
+
+export function backupFileName(date: Date): string {
+  return `backup-${fileTimestamp(date)}.dump`;
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+/**
+ * Removes a backup along with its manifest.
+ */
+export async function removeBackup(backup: Backup): Promise<void> {
+  await unlink(backup.path);
+  await unlink(manifestPath(backup.path)).catch(() => {});
+}
+
+function isoWeek(date: Date): string {
+  // The ISO week belongs to the year of its Thursday
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((thursday.getTime() - yearStart) / 86_400_000 + 1) / 7);
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+const PERIODS: { name: keyof RetentionPolicy; key: (date: Date) => string }[] = [
+  { name: 'daily', key: date => date.toISOString().slice(0, 10) },
+  { name: 'weekly', key: isoWeek },
+  { name: 'monthly', key: date => date.toISOString().slice(0, 7) },
+];
+
+/**
+ * Picks the backups to keep under a grandfather-father-son policy: the newest
+ * backup of each of the most recent days, weeks and months that have backups,
+ * up to the policy's count for each. The newest backup is always kept.
+ */
+export function planRetention(backups: Backup[], policy: RetentionPolicy): RetentionPlan {
+  const newestFirst = [...backups].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const keep = new Map<Backup, string[]>();
+
+  if (newestFirst.length > 0) {
+    keep.set(newestFirst[0], ['newest']);
+  }
+
+  for (const period of PERIODS) {
+    const seen = new Set<string>();
+    for (const backup of newestFirst) {
+      const key = period.key(backup.createdAt);
+      if (seen.has(key)) continue;
+      if (seen.size >= policy[period.name]) break;
+      seen.add(key);
+      keep.set(backup, [...(keep.get(backup) ?? []), `${period.name} ${key}`]);
+    }
+  }
+
+  return { keep, remove: newestFirst.filter(backup => !keep.has(backup)) };
+}
+
+/**
+ * Counts the rows of each public table in a plain dump from its COPY blocks,
+ * for checking a restore of a dump that has no manifest.
+ */
+export async function countDumpRows(dump: DumpInfo): Promise<Record<string, number>> {
+  if (dump.format !== 'plain') {
+    throw new Error(`Only plain SQL dumps can be counted, not ${dump.format} ones`);
+  }
+
+  const input = createReadStream(dump.path);
+  const lines = createInterface({ input: dump.gzip ? input.pipe(createGunzip()) : input, crlfDelay: Infinity });
+
+  const counts: Record<string, number> = {};
+  let table: string | null = null;
+  for await (const line of lines) {
+    if (table !== null) {
+      if (line === '\\.') {
+        table = null;
+      } else {
+        counts[table]++;
+      }
+      continue;
+    }
+
+    const match = line.match(/^COPY public\.("?)(.+?)\1 \(.*\) FROM stdin;$/);
+    if (match) {
+      table = match[2].replace(/""/g, '"');
+      counts[table] = 0;
+    }
+  }
+
+  return Object.fromEntries(Object.entries(counts).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Reads the write watermark of the database db is connected to. The per-table
+ * counters leave out system catalogs, which autovacuum and ANALYZE update
+ * without any rows changing, and the table count changes with DDL. db must
+ * reach the primary, since a replica keeps its own statistics.
+ */
+export async function getWriteWatermark(db: postgres.Sql): Promise<WriteWatermark> {
+  const [row] = await db<WriteWatermark[]>`/*NO LOAD BALANCE*/
+    SELECT
+      COALESCE(SUM(t.n_tup_ins + t.n_tup_upd + t.n_tup_del), 0)::text AS writes,
+      COUNT(t.relid)::int AS tables,
+      (SELECT stats_reset::text FROM pg_stat_database WHERE datname = current_database()) AS "statsReset"
+    FROM pg_stat_user_tables t;
+  `;
+  return { writes: row.writes, tables: row.tables, statsReset: row.statsReset };
+}
+
+export function sameWatermark(a: WriteWatermark, b: WriteWatermark): boolean {
+  return a.writes === b.writes && a.tables === b.tables && a.statsReset === b.statsReset;
+}
+
+export async function readStatus(dir: string): Promise<BackupStatus | null> {
+  try {
+    return JSON.parse(await readFile(path.join(dir, STATUS_FILE), 'utf8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+export async function writeStatus(dir: string, status: BackupStatus): Promise<void> {
+  // Renamed into place, so health checks never read a partial file
+  const file = path.join(dir, STATUS_FILE);
+  await writeFile(`${file}.tmp`, JSON.stringify(status, null, 2) + '\n');
+  await rename(`${file}.tmp`, file);
+}
+
+/**
+ * Checks the status of the backup service, returning its problems: it stopped
+ * checking for writes, its last backup or base backup failed, it is more than
+ * a base backup late, the primary fails to archive its WAL, or (with maxAge)
+ * its last successful backup is older than that.
+ */
+export function checkStatus(status: BackupStatus | null, maxAge: number | null, now = Date.now()): string[] {
+  if (!status) {
+    return [`The backup service has not run yet (no ${STATUS_FILE})`];
+  }
+
+  const problems: string[] = [];
+  const staleAfter = Math.max(3 * status.intervalMs, 5 * 60_000);
+  if (now - Date.parse(status.checkedAt) > staleAfter) {
+    problems.push(`The backup service last checked for writes at ${status.checkedAt}`);
+  }
+  if (status.lastFailureAt && (!status.lastSuccessAt || status.lastFailureAt > status.lastSuccessAt)) {
+    problems.push(`The last backup failed at ${status.lastFailureAt}: ${status.lastError}`);
+  }
+  if (status.lastBaseFailureAt && (!status.lastBaseBackupAt || status.lastBaseFailureAt > status.lastBaseBackupAt)) {
+    problems.push(`The last base backup failed at ${status.lastBaseFailureAt}: ${status.lastBaseError}`);
+  }
+  if (status.baseIntervalMs && status.lastBaseBackupAt && now - Date.parse(status.lastBaseBackupAt) > 2 * status.baseIntervalMs) {
+    problems.push(`The last base backup is from ${status.lastBaseBackupAt}`);
+  }
+  const archiver = status.archiver;
+  if (archiver?.lastFailedAt && (!archiver.lastArchivedAt || archiver.lastFailedAt > archiver.lastArchivedAt)) {
+    problems.push(`The primary failed to archive WAL segment ${archiver.lastFailedWal} at ${archiver.lastFailedAt}`);
+  }
+  if (maxAge !== null && (!status.lastSuccessAt || now - Date.parse(status.lastSuccessAt) > maxAge)) {
+    problems.push(status.lastSuccessAt
+      ? `The last successful backup is from ${status.lastSuccessAt}`
+      : 'There has been no successful backup yet');
+  }
+  return problems;
+}
@@ -0,0 +1,51 @@
+import type { Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { connect, type Target } from './target.ts';
+
+/**
+ * Streaming rows out of the database with COPY ... TO STDOUT, for the dump
+ * scripts.
+ *
+ * postgres.js (3.4.7) pauses its socket whenever a copy's readable stream is
+ * full, and resumes it only when the stream is read again. When the end of
+ * the copy arrives while the socket is paused, the stream ends without being
+ * read again, so the socket stays paused and the connection's next query
+ * never completes. Each copy therefore runs on a connection of its own, which
+ * is closed rather than reused once the copy is done.
+ */
+
+export interface CopyOutOptions {
+  // Database to connect to instead of the target's
+  database?: string;
+  // Connect to the primary server itself, as a snapshot can only be imported there
+  direct?: boolean;
+  // Snapshot exported with pg_export_snapshot() to read the rows from
+  snapshot?: string;
+  // Whether to end output after the copy (default true)
+  end?: boolean;
+}
+
+/**
+ * Copies a table or query into output. source is what COPY reads from: a
+ * table with its column list, or a query in parentheses.
+ */
+export async function copyOut(
+  target: Target,
+  source: string,
+  output: Writable,
+  options: CopyOutOptions = {}
+): Promise<void> {
+  const db = connect(target, { database: options.database, direct: options.direct });
+  try {
+    const connection = await db.reserve();
+    if (options.snapshot) {
+      // Left open, as the connection is closed after the copy
+      await connection.unsafe('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+      await connection.unsafe(`SET TRANSACTION SNAPSHOT '${options.snapshot}'`);
+    }
+    const readable = await connection.unsafe(`COPY ${source} TO STDOUT`).readable();
+    await pipeline(readable, output, { end: options.end ?? true });
+  } finally {
+    await db.end({ timeout: 0 });
+  }
+}
@@ -0,0 +1,316 @@
+import postgres from 'postgres';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { open, stat } from 'node:fs/promises';
+import type { Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { createGunzip } from 'node:zlib';
+import { countRows, getMaxEventDate, getSchemaVersion, type ManifestDetails } from './manifest.ts';
+import { getMigrationVersion } from './migrations.ts';
+import type { Tools } from './target.ts';
+
+/**
+ * Format detection, dumping and restoring of database dumps for export-dump,
+ * import-dump, merge-dump and backup. Dumps are recognized by their contents rather than their file
+ * extension, since export-dump and the backup service both write plain SQL
+ * to `.sql` files while `pg_dump --format=custom` output is often named
+ * `.sql` as well.
+ *
+ * Plain SQL is restored with psql, and custom and tar archives with
+ * pg_restore, either inside the postgres-prod container or locally installed
+ * (see target.ts). Gzip-compressed dumps are decompressed on the fly.
+ */
+
+export type DumpFormat = 'plain' | 'custom' | 'tar' | 'directory';
+
+export interface DumpInfo {
+  path: string;
+  format: DumpFormat;
+  gzip: boolean;
+  // Whether a plain dump drops existing objects first (pg_dump --clean)
+  clean: boolean;
+}
+
+export interface RestoreOptions {
+  // Drop existing objects before restoring an archive (always false for plain
+  // dumps, which carry their own DROP statements if they were made with --clean)
+  clean?: boolean;
+  // Additional stderr messages to ignore, besides missing roles
+  ignore?: string[];
+}
+
+const FORMAT_NAMES: Record<DumpFormat, string> = {
+  plain: 'plain SQL dump',
+  custom: 'custom-format archive',
+  tar: 'tar archive',
+  directory: 'directory-format archive',
+};
+
+// Bytes read from the start of a dump to detect its format
+const HEAD_SIZE = 64 * 1024;
+
+// Bytes read from the end of a plain dump to check that it is complete
+const TAIL_SIZE = 4 * 1024;
+
+// Restoring ownership fails on servers without the dump's roles
+const MISSING_ROLE = /role ".*" does not exist/;
+
+// Error lines of psql (e.g. "psql:<stdin>:12: ERROR:  ...") and pg_restore
+// ("pg_restore: error: ...")
+const ERROR_PATTERN = /\bERROR:|: error:/;
+
+async function readHead(filePath: string, gzip: boolean): Promise<Buffer> {
+  if (!gzip) {
+    const file = await open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(HEAD_SIZE);
+      const { bytesRead } = await file.read(buffer, 0, HEAD_SIZE, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await file.close();
+    }
+  }
+
+  // Decompress only as much as needed for detection
+  const chunks: Buffer[] = [];
+  let length = 0;
+  const stream = createReadStream(filePath).pipe(createGunzip());
+  try {
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+      length += chunk.length;
+      if (length >= HEAD_SIZE) break;
+    }
+  } catch (err) {
+    // A truncated file still yields its first bytes
+    if (length === 0) {
+      throw new Error(`Could not decompress ${filePath}: ${(err as Error).message}`);
+    }
+  } finally {
+    stream.destroy();
+  }
+  return Buffer.concat(chunks).subarray(0, HEAD_SIZE);
+}
+
+async function readTail(filePath: string, size: number): Promise<string> {
+  const file = await open(filePath, 'r');
+  try {
+    const length = Math.min(TAIL_SIZE, size);
+    const buffer = Buffer.alloc(length);
+    await file.read(buffer, 0, length, size - length);
+    return buffer.toString('utf8');
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Detects the format of a dump file, and rejects files that are empty or,
+ * for plain dumps written by pg_dump, cut off before the end (as left behind
+ * by a backup that failed midway).
+ */
+export async function detectDumpFormat(filePath: string): Promise<DumpInfo> {
+  const stats = await stat(filePath);
+
+  if (stats.isDirectory()) {
+    const toc = await stat(`${filePath}/toc.dat`).catch(() => null);
+    if (!toc) {
+      throw new Error(`${filePath} is a directory, but not a directory-format dump (no toc.dat)`);
+    }
+    return { path: filePath, format: 'directory', gzip: false, clean: false };
+  }
+
+  if (stats.size === 0) {
+    throw new Error(`${filePath} is empty (the dump that wrote it probably failed)`);
+  }
+
+  const magic = await readHead(filePath, false);
+  const gzip = magic[0] === 0x1f && magic[1] === 0x8b;
+  const head = gzip ? await readHead(filePath, true) : magic;
+
+  if (head.subarray(0, 5).toString('latin1') === 'PGDMP') {
+    return { path: filePath, format: 'custom', gzip, clean: false };
+  }
+
+  if (head.length >= 262 && head.subarray(257, 262).toString('latin1') === 'ustar') {
+    return { path: filePath, format: 'tar', gzip, clean: false };
+  }
+
+  if (head.includes(0)) {
+    throw new Error(`${filePath} is not a recognized dump format (expected plain SQL, or a custom or tar archive, optionally gzip-compressed)`);
+  }
+
+  const text = head.toString('utf8');
+
+  // pg_dump ends every plain dump with this comment
+  if (!gzip && text.includes('-- PostgreSQL database dump')) {
+    const tail = await readTail(filePath, stats.size);
+    if (!tail.includes('-- PostgreSQL database dump complete')) {
+      throw new Error(`${filePath} appears to be truncated (it lacks the end marker written by pg_dump)`);
+    }
+  }
+
+  // With --clean, the DROP statements come right after the header
+  return { path: filePath, format: 'plain', gzip, clean: /^DROP /m.test(text) };
+}
+
+export function describeDump(dump: DumpInfo): string {
+  const name = FORMAT_NAMES[dump.format];
+  return dump.gzip ? `${name} (gzip-compressed)` : name;
+}
+
+/**
+ * Restores a dump into a database of the target, streaming the file into psql
+ * or pg_restore. Errors about missing roles (and any in options.ignore) are
+ * expected when restoring another server's dump, and are not reported; any
+ * other error fails the restore, although neither tool stops at it.
+ */
+export async function restoreDump(
+  dump: DumpInfo,
+  tools: Tools,
+  database: string,
+  options: RestoreOptions = {}
+): Promise<void> {
+  // A directory can only be read by a pg_restore running on this machine
+  const streamed = dump.format !== 'directory';
+  if (!streamed && tools.mode === 'docker') {
+    throw new Error('Directory-format dumps cannot be streamed into the container. Pass the database as a connection string with --target to restore them with local client tools, or re-export with --format=custom.');
+  }
+
+  const tool = dump.format === 'plain' ? 'psql' : 'pg_restore';
+  const toolArgs = dump.format === 'plain'
+    ? []
+    : ['--no-owner', '--no-acl', ...(options.clean ? ['--clean', '--if-exists'] : []), ...(streamed ? [] : [dump.path])];
+  const ignore = options.ignore ?? [];
+
+  return new Promise((resolve, reject) => {
+    const proc = tools.spawn(tool, toolArgs, database, [streamed ? 'pipe' : 'ignore', 'ignore', 'pipe']);
+
+    let stderr = '';
+    let partialLine = '';
+    let streamError: Error | null = null;
+
+    const filterLines = (lines: string[]) => {
+      // Filter out expected errors
+      for (const line of lines) {
+        if (line.trim() && !MISSING_ROLE.test(line) && !ignore.some(msg => line.includes(msg))) {
+          stderr += line + '\n';
+        }
+      }
+    };
+
+    proc.stderr!.on('data', (data) => {
+      const lines = (partialLine + data.toString()).split('\n');
+      partialLine = lines.pop()!;
+      filterLines(lines);
+    });
+
+    if (streamed) {
+      const input = createReadStream(dump.path);
+      const piped = dump.gzip
+        ? pipeline(input, createGunzip(), proc.stdin!)
+        : pipeline(input, proc.stdin!);
+
+      piped.catch((err) => {
+        // EPIPE means the restore exited early, which its exit code reports
+        if (err.code !== 'EPIPE') {
+          streamError = err;
+          proc.kill();
+        }
+      });
+    }
+
+    proc.on('error', (err) => {
+      reject(new Error(`Failed to spawn ${tools.mode === 'docker' ? 'docker' : tool}: ${err.message}`));
+    });
+
+    proc.on('close', (code) => {
+      filterLines([partialLine]);
+      if (streamError) {
+        reject(new Error(`Failed to read ${dump.path}: ${streamError.message}`));
+        return;
+      }
+      // psql carries on after a failed statement and still exits with code 0,
+      // while pg_restore exits with code 1 after any error, even the filtered
+      // ones, so fail on the errors left in stderr
+      const errors = stderr.split('\n').filter(line => ERROR_PATTERN.test(line));
+      if (errors.length > 0 || (code !== 0 && tool === 'psql')) {
+        reject(new Error(
+          `${tool} ${errors.length > 0 ? `reported ${errors.length} error(s)` : `exited with code ${code}`}` +
+          `${stderr ? `: ${stderr}` : ''}`
+        ));
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
+/**
+ * Runs pg_dump on a database of the target with the given options, writing
+ * the dump to output (which is left open).
+ */
+export function runPgDump(tools: Tools, database: string, options: string[], output: Writable): Promise<void> {
+  const proc = tools.spawn('pg_dump', options, database, ['ignore', 'pipe', 'pipe']);
+
+  proc.stdout!.pipe(output, { end: false });
+
+  let stderr = '';
+  proc.stderr!.on('data', (data) => {
+    stderr += data.toString();
+  });
+
+  return new Promise((resolve, reject) => {
+    proc.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`pg_dump exited with code ${code}${stderr.trim() ? `: ${stderr.trim()}` : ''}`));
+      }
+    });
+
+    proc.on('error', (err) => {
+      reject(new Error(`Failed to spawn ${tools.mode === 'docker' ? 'docker' : 'pg_dump'}: ${err.message}`));
+    });
+
+    output.on('error', (err) => {
+      reject(new Error(`Failed to write to file: ${err.message}`));
+    });
+  });
+}
+
+/**
+ * Dumps the database db is connected to into a file, and gathers the details
+ * for its manifest. The row counts are taken in a transaction whose snapshot
+ * pg_dump then exports from, so they match the dump even while a sync is
+ * writing. db must reach the primary, where pg_dump connects.
+ */
+export async function dumpDatabase(
+  db: postgres.Sql,
+  tools: Tools,
+  database: string,
+  filePath: string,
+  options: string[]
+): Promise<ManifestDetails> {
+  return db.begin('isolation level repeatable read read only', async (tx) => {
+    const [{ snapshot }] = await tx<{ snapshot: string }[]>`/*NO LOAD BALANCE*/
+      SELECT pg_export_snapshot() AS snapshot;
+    `;
+
+    const output = createWriteStream(filePath);
+    try {
+      await runPgDump(tools, database, [...options, `--snapshot=${snapshot}`], output);
+    } finally {
+      // Wait for the file to be written
+      await new Promise<void>((resolve) => {
+        output.end(() => resolve());
+      });
+    }
+
+    return {
+      schemaVersion: await getSchemaVersion(tx),
+      migrationVersion: await getMigrationVersion(tx),
+      maxEventDate: await getMaxEventDate(tx),
+      tables: await countRows(tx),
+    };
+  });
+}
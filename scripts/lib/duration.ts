@@ -0,0 +1,21 @@
+/**
+ * Parses a duration such as 90s, 15m or 2h into milliseconds. Plain numbers
+ * are taken in the given default unit.
+ */
+export function parseDuration(value: string, defaultUnit: 's' | 'm' | 'h' = 'm'): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smh]?)$/i);
+  if (!match) return null;
+  const unit = { s: 1000, m: 60_000, h: 3_600_000 }[(match[2].toLowerCase() || defaultUnit) as 's' | 'm' | 'h'];
+  return Math.round(parseFloat(match[1]) * unit);
+}
+
+/**
+ * Formats the time elapsed since a date for display, e.g. 45m, 5h 12m or 3d 4h.
+ */
+export function formatAge(since: Date): string {
+  const minutes = Math.floor((Date.now() - since.getTime()) / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
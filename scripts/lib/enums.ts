@@ -0,0 +1,134 @@
+import postgres from 'postgres';
+import { rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  MIGRATIONS_DIR,
+  applyMigration,
+  getAppliedMigrations,
+  loadMigrations,
+  migrationFileName,
+  type Migration,
+} from './migrations.ts';
+
+/**
+ * The enums of the events table, FormatType and EventType, whose values come
+ * from upstream. When upstream starts reporting a format or event kind that a
+ * local enum lacks, writing its events fails, so sync-upstream checks for
+ * unknown values first and can add them through a new migration.
+ */
+
+export const EVENT_ENUMS = [
+  { type: 'FormatType', column: 'format' },
+  { type: 'EventType', column: 'kind' },
+] as const;
+
+export type EnumType = typeof EVENT_ENUMS[number]['type'];
+
+export type EnumColumn = typeof EVENT_ENUMS[number]['column'];
+
+export interface UnknownValue {
+  type: EnumType;
+  column: EnumColumn;
+  value: string;
+  // Number of upstream events with the value
+  events: number;
+}
+
+export async function getEnumValues(db: postgres.Sql, typeName: EnumType): Promise<string[]> {
+  const rows = await db<{ value: string }[]>`
+    SELECT unnest(enum_range(NULL::${db.unsafe(typeName)}))::text AS value;
+  `;
+  return rows.map(r => r.value);
+}
+
+/**
+ * Compares the distinct formats and kinds of upstream's events against the
+ * local enums, and returns the values the local enums lack.
+ */
+export async function findUnknownValues(local: postgres.Sql, upstream: postgres.Sql): Promise<UnknownValue[]> {
+  const unknown: UnknownValue[] = [];
+
+  for (const { type, column } of EVENT_ENUMS) {
+    const known = new Set(await getEnumValues(local, type));
+    const rows = await upstream<{ value: string; events: number }[]>`
+      SELECT ${upstream(column)}::text AS value, count(*)::int AS events
+      FROM events
+      GROUP BY 1
+      ORDER BY 1;
+    `;
+    for (const row of rows) {
+      if (!known.has(row.value)) {
+        unknown.push({ type, column, value: row.value, events: row.events });
+      }
+    }
+  }
+
+  return unknown;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Adds values to the enums through a new migration, written as the next one
+ * in the migrations directory and applied right away. The database must have
+ * every other migration applied, so that the new one is its latest.
+ *
+ * Postgres can't drop enum values, so the down file recreates each enum
+ * without the added values, which fails while rows still use them.
+ */
+export async function addEnumValues(
+  db: postgres.Sql,
+  values: { type: EnumType; value: string }[],
+  dir = MIGRATIONS_DIR
+): Promise<Migration> {
+  const migrations = await loadMigrations(dir);
+  const applied = await getAppliedMigrations(db);
+  const pending = migrations.filter(m => !applied.some(a => a.version === m.version));
+  if (pending.length > 0) {
+    throw new Error(
+      `The database has ${pending.length} pending migration(s), which must be applied before adding enum values; ` +
+      'run: pnpm run migrate up'
+    );
+  }
+
+  const upLines = ['-- Adds enum values that upstream started reporting', ''];
+  const downLines = ['-- Recreates the enums without the added values, as Postgres can\'t drop', '-- enum values', ''];
+  for (const { type, column } of EVENT_ENUMS) {
+    const added = values.filter(v => v.type === type).map(v => v.value);
+    if (added.length === 0) continue;
+
+    for (const value of added) {
+      upLines.push(`ALTER TYPE ${type} ADD VALUE IF NOT EXISTS ${quote(value)};`);
+    }
+
+    const previous = (await getEnumValues(db, type)).filter(v => !added.includes(v));
+    downLines.push(
+      `ALTER TYPE ${type} RENAME TO ${type}_old;`,
+      `CREATE TYPE ${type} AS ENUM (${previous.map(quote).join(', ')});`,
+      `ALTER TABLE events ALTER COLUMN ${column} TYPE ${type} USING ${column}::text::${type};`,
+      `DROP TYPE ${type}_old;`,
+      ''
+    );
+  }
+
+  const slug = values.map(v => v.value).join('_').toLowerCase().replace(/[^a-z0-9]+/g, '_');
+  const name = `add_${slug}`.slice(0, 60).replace(/^_+|_+$/g, '').replace(/^add$/, 'add_enum_values');
+  const version = migrations.length > 0 ? migrations[migrations.length - 1].version + 1 : 1;
+  const upFile = path.join(dir, migrationFileName(version, name, 'up'));
+  const downFile = path.join(dir, migrationFileName(version, name, 'down'));
+  await writeFile(upFile, upLines.join('\n') + '\n', { flag: 'wx' });
+  await writeFile(downFile, downLines.join('\n'), { flag: 'wx' });
+
+  try {
+    const migration = (await loadMigrations(dir)).find(m => m.version === version)!;
+    await applyMigration(db, migration);
+    return migration;
+  } catch (err) {
+    // Don't leave a migration behind that the database doesn't have
+    await rm(upFile, { force: true });
+    await rm(downFile, { force: true });
+    throw err;
+  }
+}
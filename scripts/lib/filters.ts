@@ -0,0 +1,142 @@
+import postgres from 'postgres';
+import { getEnumValues, type EnumType } from './enums.ts';
+
+/**
+ * Event filters shared by sync-upstream, export-dump and export-data: --since,
+ * --until, --format, --kind and --event, each repeatable or comma-separated. An
+ * event must match all of the given filters.
+ */
+
+export interface EventFilters {
+  since: string | null;
+  until: string | null;
+  formats: string[];
+  kinds: string[];
+  eventIds: number[];
+}
+
+// Raw option values, as returned by parseArgs
+export interface FilterOptions {
+  since?: string;
+  until?: string;
+  format: string[];
+  kind: string[];
+  event: string[];
+}
+
+/**
+ * Conditions selecting the rows of each table that belong to a set of events,
+ * given as an SQL array of their IDs, in order of table dependencies. A subset
+ * includes exactly the players its standings, matches and decks reference.
+ */
+export const SUBSET_TABLES: Record<string, (eventIds: string) => string> = {
+  players: (eventIds) => `name IN (
+    SELECT player FROM public.standings WHERE event_id = ANY(${eventIds})
+    UNION SELECT player FROM public.matches WHERE event_id = ANY(${eventIds})
+    UNION SELECT opponent FROM public.matches WHERE event_id = ANY(${eventIds})
+    UNION SELECT player FROM public.decks WHERE event_id = ANY(${eventIds})
+  )`,
+  events: (eventIds) => `id = ANY(${eventIds})`,
+  standings: (eventIds) => `event_id = ANY(${eventIds})`,
+  matches: (eventIds) => `event_id = ANY(${eventIds})`,
+  decks: (eventIds) => `event_id = ANY(${eventIds})`,
+  archetypes: (eventIds) => `deck_id IN (SELECT id FROM public.decks WHERE event_id = ANY(${eventIds}))`,
+};
+
+export function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function splitList(values: string[]): string[] {
+  return values.flatMap(v => v.split(',')).map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Validates the filter options against the FormatType and EventType enums of
+ * the given database, normalizing names to the casing used by the enums.
+ */
+export async function resolveFilters(db: postgres.Sql, options: FilterOptions): Promise<EventFilters> {
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+  const resolveDate = (option: 'since' | 'until') => {
+    const value = options[option];
+    if (value === undefined) return null;
+    
+    // Relative dates count back from today, e.g. 30d
+    const relative = value.match(/^(\d+)d$/);
+    if (relative) return daysAgo(parseInt(relative[1]));
+    
+    if (!datePattern.test(value) || isNaN(Date.parse(value))) {
+      throw new Error(`Invalid --${option} date "${value}", expected YYYY-MM-DD or a number of days (e.g. 30d)`);
+    }
+    return value;
+  };
+  
+  const resolveEnum = async (option: 'format' | 'kind', typeName: EnumType) => {
+    const values = splitList(options[option]);
+    if (values.length === 0) return [];
+    
+    const enumValues = await getEnumValues(db, typeName);
+    return values.map(value => {
+      const match = enumValues.find(v => v.toLowerCase() === value.toLowerCase());
+      if (!match) {
+        throw new Error(`Invalid --${option} "${value}", expected one of: ${enumValues.join(', ')}`);
+      }
+      return match;
+    });
+  };
+  
+  const eventIds = splitList(options.event).map(value => {
+    const id = Number(value);
+    if (!Number.isInteger(id)) {
+      throw new Error(`Invalid --event ID "${value}"`);
+    }
+    return id;
+  });
+  
+  return {
+    since: resolveDate('since'),
+    until: resolveDate('until'),
+    formats: await resolveEnum('format', 'FormatType'),
+    kinds: await resolveEnum('kind', 'EventType'),
+    eventIds,
+  };
+}
+
+export function hasFilters(filters: EventFilters): boolean {
+  return filters.since !== null ||
+    filters.until !== null ||
+    filters.formats.length > 0 ||
+    filters.kinds.length > 0 ||
+    filters.eventIds.length > 0;
+}
+
+export function describeFilters(filters: EventFilters): string {
+  const parts: string[] = [];
+  if (filters.since) parts.push(`since ${filters.since}`);
+  if (filters.until) parts.push(`until ${filters.until}`);
+  if (filters.formats.length > 0) parts.push(`format ${filters.formats.join('/')}`);
+  if (filters.kinds.length > 0) parts.push(`kind ${filters.kinds.join('/')}`);
+  if (filters.eventIds.length > 0) parts.push(`event ${filters.eventIds.join(', ')}`);
+  return parts.join(', ');
+}
+
+/**
+ * Builds the filter conditions for a query on the events table. Formats and
+ * kinds are compared as text so that the same fragment works against an
+ * upstream whose enums differ from ours.
+ */
+export function eventFilter(sql: postgres.Sql, filters: EventFilters) {
+  return sql`
+    ${filters.since ? sql`AND date >= ${filters.since}::date` : sql``}
+    ${filters.until ? sql`AND date <= ${filters.until}::date` : sql``}
+    ${filters.formats.length > 0
+      ? sql`AND format::text = ANY(${sql.array(filters.formats)}::text[])`
+      : sql``}
+    ${filters.kinds.length > 0
+      ? sql`AND kind::text = ANY(${sql.array(filters.kinds)}::text[])`
+      : sql``}
+    ${filters.eventIds.length > 0
+      ? sql`AND id = ANY(${sql.array(filters.eventIds)}::int[])`
+      : sql``}
+  `;
+}
@@ -0,0 +1,149 @@
+import postgres from 'postgres';
+import os from 'node:os';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+/**
+ * Database-wide write lock shared by the scripts that write to the local
+ * database (sync-upstream, reconcile-players, merge-dump, import-dump, backup
+ * restore, pitr-restore and migrate), so that their writes never interleave.
+ * It is a session-level advisory lock held on a reserved connection, which
+ * Postgres releases if that connection ends.
+ *
+ * The holder labels its connection through application_name, which is how
+ * other processes (and `pnpm run locks`) report who holds the lock and since
+ * when. Every query starts with a NO LOAD BALANCE hint (Pgpool only honors it
+ * at the very start), since Pgpool would otherwise send it to the replica,
+ * which can't see the primary's locks.
+ */
+
+// Two-part advisory lock key; the class keeps it apart from other applications
+const LOCK_CLASS = 0x6d746764;
+const WRITE_LOCK_ID = 1;
+
+const LABEL_PREFIX = 'mtgo-db/';
+
+// How often a waiting process retries the lock
+const WAIT_POLL_MS = 2000;
+
+export interface LockHolder {
+  script: string;
+  host: string;
+  pid: number | null;
+  backendPid: number;
+  since: Date;
+  state: string | null;
+}
+
+export interface WriteLock {
+  release(): Promise<void>;
+}
+
+export type LockResult =
+  | { lock: WriteLock; holder: null }
+  | { lock: null; holder: LockHolder | null };
+
+function holderLabel(script: string): string {
+  // application_name is limited to 63 bytes
+  const suffix = ` ${process.pid}`;
+  const label = `${LABEL_PREFIX}${script}@${os.hostname()}`;
+  return label.slice(0, 63 - suffix.length) + suffix;
+}
+
+function parseLabel(label: string): { script: string; host: string; pid: number | null } {
+  const match = label.match(/^mtgo-db\/([^@]+)@(.*) (\d+)$/);
+  if (!match) return { script: label || 'unknown', host: 'unknown', pid: null };
+  return { script: match[1], host: match[2], pid: Number(match[3]) };
+}
+
+export async function getLockHolder(db: postgres.Sql): Promise<LockHolder | null> {
+  const [row] = await db<{ pid: number; label: string; since: Date; state: string | null }[]>`/*NO LOAD BALANCE*/
+    SELECT l.pid, a.application_name AS label, a.query_start AS since, a.state
+    FROM pg_locks l
+    JOIN pg_stat_activity a ON a.pid = l.pid
+    WHERE l.locktype = 'advisory'
+      AND l.database = (SELECT oid FROM pg_database WHERE datname = current_database())
+      AND l.classid = ${LOCK_CLASS}
+      AND l.objid = ${WRITE_LOCK_ID}
+      AND l.objsubid = 2
+      AND l.granted;
+  `;
+  if (!row) return null;
+  return { ...parseLabel(row.label), backendPid: row.pid, since: row.since, state: row.state };
+}
+
+export function describeHolder(holder: LockHolder | null): string {
+  if (!holder) {
+    return 'Another script is writing to the database';
+  }
+  const pid = holder.pid === null ? '' : ` (pid ${holder.pid})`;
+  return `${holder.script} is already running since ${holder.since.toISOString()} by host ${holder.host}${pid}`;
+}
+
+async function tryLock(connection: postgres.ReservedSql, label: string): Promise<boolean> {
+  // The label is set in the same statement, so the lock is never seen unlabeled
+  const [{ locked }] = await connection<{ locked: boolean }[]>`/*NO LOAD BALANCE*/
+    SELECT CASE
+      WHEN pg_try_advisory_lock(${LOCK_CLASS}::int, ${WRITE_LOCK_ID}::int)
+      THEN set_config('application_name', ${label}, false) IS NOT NULL
+      ELSE false
+    END AS locked;
+  `;
+  return locked;
+}
+
+/**
+ * Acquires the write lock for a script, retrying for up to waitMs while
+ * another process holds it. Returns the current holder if it is still busy.
+ */
+export async function acquireWriteLock(
+  db: postgres.Sql,
+  script: string,
+  waitMs = 0
+): Promise<LockResult> {
+  const connection = await db.reserve();
+  const label = holderLabel(script);
+  const deadline = Date.now() + waitMs;
+  let announced = false;
+
+  try {
+    while (!await tryLock(connection, label)) {
+      const holder = await getLockHolder(connection);
+      if (Date.now() >= deadline) {
+        connection.release();
+        return { lock: null, holder };
+      }
+      if (!announced) {
+        console.log(`${describeHolder(holder)}; waiting up to ${Math.ceil(waitMs / 1000)}s for it to finish...`);
+        announced = true;
+      }
+      await sleep(Math.min(WAIT_POLL_MS, Math.max(deadline - Date.now(), 0)));
+    }
+  } catch (err) {
+    connection.release();
+    throw err;
+  }
+
+  const release = async () => {
+    await connection`/*NO LOAD BALANCE*/
+      SELECT pg_advisory_unlock(${LOCK_CLASS}::int, ${WRITE_LOCK_ID}::int);
+    `.catch(() => {});
+    await connection`RESET application_name`.catch(() => {});
+    connection.release();
+  };
+
+  return { lock: { release }, holder: null };
+}
+
+/**
+ * Releases a lock held by another process by terminating its database
+ * connection, for when that process hung or can no longer be reached.
+ */
+export async function clearWriteLock(db: postgres.Sql): Promise<LockHolder | null> {
+  const holder = await getLockHolder(db);
+  if (!holder) return null;
+
+  await db`/*NO LOAD BALANCE*/
+    SELECT pg_terminate_backend(${holder.backendPid});
+  `;
+  return holder;
+}
@@ -0,0 +1,212 @@
+import postgres from 'postgres';
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { readFile, stat, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import type { DumpFormat, DumpInfo } from './dump.ts';
+import type { EventFilters } from './filters.ts';
+
+/**
+ * Sidecar manifests written by export-dump next to each dump
+ * (`<dump>.manifest.json`), and by `backup verify` for the backup service's
+ * dumps, and checked by import-dump, merge-dump and backup before and after
+ * loading the dump. Bump MANIFEST_VERSION on any change that is not
+ * a backwards-compatible addition.
+ */
+export const MANIFEST_VERSION = 1;
+
+export interface DumpManifest {
+  manifestVersion: number;
+  // Script that wrote the manifest
+  tool: 'export-dump' | 'backup';
+  createdAt: string;
+  sourceHost: string;
+  database: string;
+  // File name of the dump, without its directory
+  file: string;
+  format: DumpFormat;
+  gzip: boolean;
+  bytes: number;
+  sha256: string;
+  schemaVersion: string;
+  // Latest migration applied to the exported schema, null if none are recorded
+  migrationVersion: number | null;
+  // Date of the latest event in the dump, if any
+  maxEventDate: string | null;
+  // Filters of a subset export, null for a full export
+  filters: EventFilters | null;
+  // Row counts of every table in the dump
+  tables: Record<string, number>;
+}
+
+// What a manifest records about the contents of a dump
+export type ManifestDetails = Pick<DumpManifest, 'schemaVersion' | 'migrationVersion' | 'maxEventDate' | 'tables'>;
+
+export interface CountMismatch {
+  table: string;
+  expected: number;
+  actual: number | null;
+}
+
+export function manifestPath(dumpPath: string): string {
+  return `${dumpPath}.manifest.json`;
+}
+
+export async function sha256File(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  await pipeline(createReadStream(filePath), hash);
+  return hash.digest('hex');
+}
+
+/**
+ * Fingerprints the public schema (tables, columns and their types), so that
+ * dumps of differently shaped databases can be told apart. The sync state
+ * tables and schema_migrations are left out, as they only exist once a
+ * database has been synced or migrated.
+ */
+export async function getSchemaVersion(db: postgres.Sql): Promise<string> {
+  const columns = await db<{ line: string }[]>`/*NO LOAD BALANCE*/
+    SELECT table_name || '.' || column_name || ':' || udt_name AS line
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND NOT starts_with(table_name, 'sync_')
+      AND table_name <> 'schema_migrations'
+    ORDER BY table_name, ordinal_position;
+  `;
+  const hash = createHash('sha256').update(columns.map(c => c.line).join('\n'));
+  return `sha256:${hash.digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Counts the rows of the given tables, or of all tables in the public schema.
+ * Tables that don't exist are left out.
+ */
+export async function countRows(db: postgres.Sql, tables?: string[]): Promise<Record<string, number>> {
+  const names = tables ?? (await db<{ table_name: string }[]>`/*NO LOAD BALANCE*/
+    SELECT table_name FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_type = 'BASE TABLE'
+    ORDER BY table_name;
+  `).map(t => t.table_name);
+
+  const counts: Record<string, number> = {};
+  for (const table of names) {
+    const [exists] = await db`/*NO LOAD BALANCE*/
+      SELECT 1 FROM information_schema.tables
+      WHERE table_schema = 'public' AND table_name = ${table};
+    `;
+    if (!exists) continue;
+
+    const [{ count }] = await db.unsafe(`/*NO LOAD BALANCE*/
+      SELECT COUNT(*)::int AS count FROM public."${table.replace(/"/g, '""')}"
+    `);
+    counts[table] = count;
+  }
+  return counts;
+}
+
+export async function getMaxEventDate(db: postgres.Sql): Promise<string | null> {
+  const [{ date }] = await db<{ date: string | null }[]>`/*NO LOAD BALANCE*/
+    SELECT MAX(date)::text AS date FROM events;
+  `;
+  return date;
+}
+
+/**
+ * Describes a finished dump of this machine's database. createdAt defaults to
+ * now, and filters to null for a full dump.
+ */
+export async function createManifest(
+  tool: DumpManifest['tool'],
+  dump: Pick<DumpInfo, 'path' | 'format' | 'gzip'>,
+  database: string,
+  details: ManifestDetails,
+  options: { createdAt?: Date; filters?: EventFilters | null } = {}
+): Promise<DumpManifest> {
+  return {
+    manifestVersion: MANIFEST_VERSION,
+    tool,
+    createdAt: (options.createdAt ?? new Date()).toISOString(),
+    sourceHost: os.hostname(),
+    database,
+    file: path.basename(dump.path),
+    format: dump.format,
+    gzip: dump.gzip,
+    bytes: (await stat(dump.path)).size,
+    sha256: await sha256File(dump.path),
+    schemaVersion: details.schemaVersion,
+    migrationVersion: details.migrationVersion,
+    maxEventDate: details.maxEventDate,
+    filters: options.filters ?? null,
+    tables: details.tables,
+  };
+}
+
+export async function writeManifest(dumpPath: string, manifest: DumpManifest): Promise<string> {
+  const file = manifestPath(dumpPath);
+  await writeFile(file, JSON.stringify(manifest, null, 2) + '\n');
+  return file;
+}
+
+/**
+ * Reads the manifest of a dump. Returns null if the dump has none (such as
+ * the backup service's dumps), and fails if it can't be read.
+ */
+export async function readManifest(dumpPath: string): Promise<DumpManifest | null> {
+  const file = manifestPath(dumpPath);
+  let text: string;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+
+  let manifest: DumpManifest;
+  try {
+    manifest = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid dump manifest ${file}: ${(err as Error).message}`);
+  }
+  if (typeof manifest.manifestVersion !== 'number' || manifest.manifestVersion > MANIFEST_VERSION) {
+    throw new Error(`Unsupported dump manifest version ${manifest.manifestVersion} in ${file}`);
+  }
+  return manifest;
+}
+
+/**
+ * Checks a dump against its manifest before loading it: its format, size and
+ * checksum must match, or the dump was modified or cut off since the export.
+ */
+export async function verifyDump(dump: DumpInfo, manifest: DumpManifest): Promise<void> {
+  if (dump.format !== manifest.format || dump.gzip !== manifest.gzip) {
+    throw new Error(`The dump is a ${dump.format}${dump.gzip ? ' (gzip)' : ''} dump, but its manifest records ${manifest.format}${manifest.gzip ? ' (gzip)' : ''}`);
+  }
+
+  const { size } = await stat(dump.path);
+  if (size !== manifest.bytes) {
+    throw new Error(`The dump is ${size.toLocaleString()} bytes, but its manifest records ${manifest.bytes.toLocaleString()}; it was modified or cut off after the export`);
+  }
+
+  const sha256 = await sha256File(dump.path);
+  if (sha256 !== manifest.sha256) {
+    throw new Error(`The dump's SHA-256 (${sha256}) doesn't match its manifest (${manifest.sha256}); it was modified or damaged after the export`);
+  }
+}
+
+/**
+ * Compares row counts after loading a dump with the expected ones, such as
+ * the counts in its manifest.
+ */
+export function compareCounts(expected: Record<string, number>, counts: Record<string, number>): CountMismatch[] {
+  return Object.entries(expected)
+    .filter(([table, expected]) => counts[table] !== expected)
+    .map(([table, expected]) => ({ table, expected, actual: counts[table] ?? null }));
+}
+
+export function describeMismatches(mismatches: CountMismatch[]): string {
+  return mismatches
+    .map(m => `${m.table}: expected ${m.expected.toLocaleString()}, found ${m.actual === null ? 'no table' : m.actual.toLocaleString()}`)
+    .join('; ');
+}
@@ -0,0 +1,160 @@
+import postgres from 'postgres';
+import { createHash } from 'node:crypto';
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * Versioned schema migrations in postgres/migrations/, as pairs of
+ * `NNNN_name.up.sql` and `NNNN_name.down.sql` files, applied in order of
+ * their number. Each applied migration is recorded in schema_migrations with
+ * the checksum of its up file, so that edits to applied migrations show up.
+ * The highest applied version is the database's migration version, which
+ * dump manifests record and the dump scripts compare.
+ *
+ * A new database gets every migration when it is first created (see
+ * initdb.d/0_schema.sh). Databases created before migrations existed have the
+ * schema of the first one without a record of it, which `migrate up` adds.
+ */
+
+export const MIGRATIONS_DIR = path.resolve(import.meta.dirname, '../../postgres/migrations');
+
+const MIGRATIONS_TABLE_FILE = path.resolve(import.meta.dirname, '../../postgres/schema_migrations.sql');
+
+export interface Migration {
+  version: number;
+  name: string;
+  upPath: string;
+  downPath: string | null;
+  // SHA-256 of the up file
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+const MIGRATION_PATTERN = /^(\d{4})_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+export function migrationFileName(version: number, name: string, direction: 'up' | 'down'): string {
+  return `${String(version).padStart(4, '0')}_${name}.${direction}.sql`;
+}
+
+/**
+ * Reads the migrations in a directory, in order. Fails if a version has no
+ * up file, or files with different names.
+ */
+export async function loadMigrations(dir = MIGRATIONS_DIR): Promise<Migration[]> {
+  const migrations = new Map<number, Migration>();
+
+  for (const file of (await readdir(dir)).sort()) {
+    const match = file.match(MIGRATION_PATTERN);
+    if (!match) continue;
+
+    const version = Number(match[1]);
+    const name = match[2];
+    const existing = migrations.get(version);
+    if (existing && existing.name !== name) {
+      throw new Error(`Migration ${match[1]} has files with different names: ${existing.name} and ${name}`);
+    }
+
+    const migration = existing ?? { version, name, upPath: '', downPath: null, checksum: '' };
+    if (match[3] === 'up') {
+      migration.upPath = path.join(dir, file);
+      migration.checksum = createHash('sha256').update(await readFile(migration.upPath)).digest('hex');
+    } else {
+      migration.downPath = path.join(dir, file);
+    }
+    migrations.set(version, migration);
+  }
+
+  for (const migration of migrations.values()) {
+    if (!migration.upPath) {
+      throw new Error(`Migration ${migrationFileName(migration.version, migration.name, 'up')} is missing`);
+    }
+  }
+
+  return [...migrations.values()].sort((a, b) => a.version - b.version);
+}
+
+export async function ensureMigrationsTable(db: postgres.Sql): Promise<void> {
+  await db.begin(async (tx) => {
+    // Hide the "already exists, skipping" notice of the idempotent statement
+    await tx`SET LOCAL client_min_messages = warning`;
+    await tx.file(MIGRATIONS_TABLE_FILE).simple();
+  });
+}
+
+/**
+ * Lists the migrations applied to the database db is connected to, in order,
+ * or none if it has no schema_migrations table.
+ */
+export async function getAppliedMigrations(db: postgres.Sql): Promise<AppliedMigration[]> {
+  const [{ exists }] = await db<{ exists: boolean }[]>`/*NO LOAD BALANCE*/
+    SELECT to_regclass('schema_migrations') IS NOT NULL AS exists;
+  `;
+  if (!exists) return [];
+
+  return db<AppliedMigration[]>`/*NO LOAD BALANCE*/
+    SELECT version, name, checksum, applied_at AS "appliedAt"
+    FROM schema_migrations
+    ORDER BY version;
+  `;
+}
+
+/**
+ * Reads the migration version of the database db is connected to: that of
+ * its latest applied migration, or null if none are recorded.
+ */
+export async function getMigrationVersion(db: postgres.Sql): Promise<number | null> {
+  const applied = await getAppliedMigrations(db);
+  return applied.length > 0 ? applied[applied.length - 1].version : null;
+}
+
+/**
+ * Tells whether the database has the schema without any recorded migrations,
+ * as databases created before migrations existed do.
+ */
+export async function predatesMigrations(db: postgres.Sql): Promise<boolean> {
+  if ((await getAppliedMigrations(db)).length > 0) return false;
+  const [{ exists }] = await db<{ exists: boolean }[]>`/*NO LOAD BALANCE*/
+    SELECT to_regclass('public.events') IS NOT NULL AS exists;
+  `;
+  return exists;
+}
+
+/**
+ * Applies a migration and records it, in one transaction. With baseline, it
+ * is only recorded, for a schema that already has it.
+ */
+export async function applyMigration(db: postgres.Sql, migration: Migration, baseline = false): Promise<void> {
+  await db.begin(async (tx) => {
+    if (!baseline) {
+      // Hide the notices of IF EXISTS and IF NOT EXISTS statements
+      await tx`SET LOCAL client_min_messages = warning`;
+      await tx.file(migration.upPath).simple();
+    }
+    await tx`
+      INSERT INTO schema_migrations (version, name, checksum)
+      VALUES (${migration.version}, ${migration.name}, ${migration.checksum});
+    `;
+  });
+}
+
+/**
+ * Reverts a migration with its down file and removes its record, in one
+ * transaction.
+ */
+export async function revertMigration(db: postgres.Sql, migration: Migration): Promise<void> {
+  if (!migration.downPath) {
+    throw new Error(`Migration ${migration.version} (${migration.name}) has no down file, so it can't be reverted`);
+  }
+
+  await db.begin(async (tx) => {
+    await tx`SET LOCAL client_min_messages = warning`;
+    await tx.file(migration.downPath!).simple();
+    await tx`DELETE FROM schema_migrations WHERE version = ${migration.version}`;
+  });
+}
@@ -0,0 +1,346 @@
+import postgres from 'postgres';
+import { spawn } from 'node:child_process';
+import { readdir, readFile, rename, rm, stat, unlink, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { fileTimestamp } from './backups.ts';
+import { toolEnv, type Target } from './target.ts';
+
+/**
+ * Point-in-time recovery: the primary archives its WAL to postgres/wal/archive
+ * (gzip-compressed, by its archive_command), and the backup service takes
+ * periodic base backups to postgres/wal/base/YYYY-MM-DD_HH-MM-SS/ (named in
+ * UTC) with pg_basebackup. pitr-restore replays the archive on top of the
+ * newest base backup taken before the moment to restore to.
+ *
+ * A base backup directory holds pg_basebackup's base.tar.gz, pg_wal.tar.gz and
+ * backup_manifest, and a backup.json written once it is complete, so
+ * directories without one are unfinished and ignored.
+ */
+
+export const WAL_DIR = 'postgres/wal';
+
+export const ARCHIVE_DIR = 'archive';
+
+export const BASE_BACKUP_DIR = 'base';
+
+// Where pitr-restore saves the data directory it replaces
+export const SAVED_DATA_DIR = 'pre-restore';
+
+export const DEFAULT_BASE_KEEP = 7;
+
+const INFO_FILE = 'backup.json';
+
+export interface BaseBackup {
+  id: string;
+  path: string;
+  startedAt: Date;
+  finishedAt: Date;
+  // First WAL segment that recovery from the backup reads from the archive
+  startWal: string;
+  timeline: number;
+  bytes: number;
+}
+
+export interface ArchiverStatus {
+  lastArchivedWal: string | null;
+  lastArchivedAt: string | null;
+  lastFailedWal: string | null;
+  lastFailedAt: string | null;
+}
+
+export interface SyncRun {
+  id: string;
+  source: string;
+  status: string;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface RecoveryTarget {
+  time: Date;
+  // The sync run restored to just before, if given by its id
+  run: SyncRun | null;
+}
+
+// Contents of a base backup's info file
+interface BaseBackupInfo {
+  startedAt: string;
+  finishedAt: string;
+  startWal: string;
+  timeline: number;
+  bytes: number;
+}
+
+const WAL_FILE_PATTERN = /^[0-9A-F]{24}/;
+
+const RUN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parses a base backup's info file, or returns null if it is malformed.
+ */
+function parseBackupInfo(text: string): BaseBackupInfo | null {
+  let info: unknown;
+  try {
+    info = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof info !== 'object' || info === null) return null;
+
+  const { startedAt, finishedAt, startWal, timeline, bytes } = info as Record<string, unknown>;
+  if (
+    typeof startedAt !== 'string' || isNaN(Date.parse(startedAt)) ||
+    typeof finishedAt !== 'string' || isNaN(Date.parse(finishedAt)) ||
+    typeof startWal !== 'string' || !WAL_FILE_PATTERN.test(startWal) ||
+    !Number.isInteger(timeline) ||
+    !Number.isInteger(bytes)
+  ) {
+    return null;
+  }
+  return { startedAt, finishedAt, startWal, timeline: timeline as number, bytes: bytes as number };
+}
+
+/**
+ * Lists the complete base backups in a WAL directory, newest first.
+ */
+export async function listBaseBackups(dir: string): Promise<BaseBackup[]> {
+  const baseDir = path.join(dir, BASE_BACKUP_DIR);
+  const backups: BaseBackup[] = [];
+
+  for (const id of await readdir(baseDir).catch(() => [] as string[])) {
+    // Unfinished backups have no info file yet, and malformed ones are skipped alike
+    const info = parseBackupInfo(await readFile(path.join(baseDir, id, INFO_FILE), 'utf8').catch(() => ''));
+    if (!info) continue;
+    backups.push({
+      id,
+      path: path.join(baseDir, id),
+      startedAt: new Date(info.startedAt),
+      finishedAt: new Date(info.finishedAt),
+      startWal: info.startWal,
+      timeline: info.timeline,
+      bytes: info.bytes,
+    });
+  }
+
+  return backups.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+}
+
+/**
+ * Takes a base backup of the target's primary server into the WAL directory
+ * with pg_basebackup, which must be installed. The backup streams the WAL it
+ * needs itself, so it is usable without the archive up to its end.
+ */
+export async function takeBaseBackup(db: postgres.Sql, target: Target, dir: string): Promise<BaseBackup> {
+  const startedAt = new Date();
+  const id = fileTimestamp(startedAt);
+  const backupPath = path.join(dir, BASE_BACKUP_DIR, id);
+  const partialPath = `${backupPath}.partial`;
+
+  // Taken before the backup's checkpoint, so the archive is kept from at most a segment earlier
+  const [{ startWal }] = await db<{ startWal: string }[]>`/*NO LOAD BALANCE*/
+    SELECT pg_walfile_name(pg_current_wal_lsn()) AS "startWal";
+  `;
+
+  const proc = spawn('pg_basebackup', [
+    '-D',
+    partialPath,
+    '--format=tar',
+    '--gzip',
+    '--wal-method=stream',
+    '--checkpoint=fast',
+    `--label=mtgo-db ${id}`,
+    '--no-password',
+  ], { stdio: ['ignore', 'ignore', 'pipe'], env: toolEnv(target) });
+
+  let stderr = '';
+  proc.stderr!.on('data', (data) => {
+    stderr += data.toString();
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      proc.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`pg_basebackup exited with code ${code}${stderr.trim() ? `: ${stderr.trim()}` : ''}`));
+        }
+      });
+
+      proc.on('error', (err) => {
+        reject(new Error(`Failed to spawn pg_basebackup (install the PostgreSQL client tools): ${err.message}`));
+      });
+    });
+
+    let bytes = 0;
+    for (const file of await readdir(partialPath)) {
+      bytes += (await stat(path.join(partialPath, file))).size;
+    }
+
+    const backup: BaseBackup = {
+      id,
+      path: backupPath,
+      startedAt,
+      finishedAt: new Date(),
+      startWal,
+      timeline: parseInt(startWal.slice(0, 8), 16),
+      bytes,
+    };
+    const info: BaseBackupInfo = {
+      startedAt: backup.startedAt.toISOString(),
+      finishedAt: backup.finishedAt.toISOString(),
+      startWal: backup.startWal,
+      timeline: backup.timeline,
+      bytes: backup.bytes,
+    };
+    await writeFile(path.join(partialPath, INFO_FILE), JSON.stringify(info, null, 2) + '\n');
+    await rename(partialPath, backupPath);
+    return backup;
+  } catch (err) {
+    await rm(partialPath, { recursive: true, force: true });
+    throw err;
+  }
+}
+
+/**
+ * Removes all but the newest keep base backups, along with the archived WAL
+ * that only the removed ones needed. Timeline history files are always kept.
+ */
+export async function pruneBaseBackups(
+  dir: string,
+  keep: number
+): Promise<{ removed: BaseBackup[]; walFiles: number }> {
+  const backups = await listBaseBackups(dir);
+  const removed = backups.slice(Math.max(keep, 1));
+  for (const backup of removed) {
+    await rm(backup.path, { recursive: true, force: true });
+  }
+
+  // Compared without the timeline, as pg_archivecleanup does
+  const oldestKept = backups[Math.min(Math.max(keep, 1), backups.length) - 1];
+  let walFiles = 0;
+  if (oldestKept) {
+    const archiveDir = path.join(dir, ARCHIVE_DIR);
+    const cutoff = oldestKept.startWal.slice(8);
+    for (const file of await readdir(archiveDir).catch(() => [] as string[])) {
+      if (WAL_FILE_PATTERN.test(file) && file.slice(8, 24) < cutoff) {
+        await unlink(path.join(archiveDir, file));
+        walFiles++;
+      }
+    }
+  }
+
+  return { removed, walFiles };
+}
+
+/**
+ * Reads how the primary's WAL archiving is going, or null if it is off. db
+ * must reach the primary.
+ */
+export async function getArchiverStatus(db: postgres.Sql): Promise<ArchiverStatus | null> {
+  const [row] = await db<(ArchiverStatus & { mode: string })[]>`/*NO LOAD BALANCE*/
+    SELECT
+      current_setting('archive_mode') AS mode,
+      last_archived_wal AS "lastArchivedWal",
+      to_char(last_archived_time AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"') AS "lastArchivedAt",
+      last_failed_wal AS "lastFailedWal",
+      to_char(last_failed_time AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"') AS "lastFailedAt"
+    FROM pg_stat_archiver;
+  `;
+  if (row.mode === 'off') return null;
+  return {
+    lastArchivedWal: row.lastArchivedWal,
+    lastArchivedAt: row.lastArchivedAt,
+    lastFailedWal: row.lastFailedWal,
+    lastFailedAt: row.lastFailedAt,
+  };
+}
+
+export async function getTimeline(db: postgres.Sql): Promise<number> {
+  const [{ timeline }] = await db<{ timeline: number }[]>`/*NO LOAD BALANCE*/
+    SELECT timeline_id AS timeline FROM pg_control_checkpoint();
+  `;
+  return timeline;
+}
+
+/**
+ * Switches the primary to a new WAL segment and waits until the archiver has
+ * archived the one it finished, so that the archive holds every commit made
+ * up to now.
+ */
+export async function archiveCurrentWal(db: postgres.Sql, timeoutMs: number): Promise<string> {
+  const [{ wal }] = await db<{ wal: string }[]>`/*NO LOAD BALANCE*/
+    SELECT pg_walfile_name(pg_switch_wal()) AS wal;
+  `;
+
+  const deadline = Date.now() + timeoutMs;
+  while (true) {
+    const archiver = await getArchiverStatus(db);
+    if (!archiver) {
+      throw new Error('WAL archiving is off (archive_mode), so there is no archive to restore from');
+    }
+    if (archiver.lastArchivedWal && archiver.lastArchivedWal.slice(8, 24) >= wal.slice(8)) {
+      return wal;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(
+        `WAL segment ${wal} was not archived within ${Math.round(timeoutMs / 1000)}s` +
+        (archiver.lastFailedWal ? ` (archiving ${archiver.lastFailedWal} last failed at ${archiver.lastFailedAt})` : '')
+      );
+    }
+    await sleep(1000);
+  }
+}
+
+// sync_runs is created by the schema files, or by sync-upstream's first run
+async function hasSyncRuns(db: postgres.Sql): Promise<boolean> {
+  const [{ exists }] = await db<{ exists: boolean }[]>`/*NO LOAD BALANCE*/
+    SELECT to_regclass('sync_runs') IS NOT NULL AS exists;
+  `;
+  return exists;
+}
+
+/**
+ * Lists the sync runs started at or after a time (or the latest ones),
+ * oldest first. Databases that were never synced have none.
+ */
+export async function listSyncRuns(db: postgres.Sql, since: Date | null, limit = 1000): Promise<SyncRun[]> {
+  if (!await hasSyncRuns(db)) return [];
+
+  const runs = await db<SyncRun[]>`/*NO LOAD BALANCE*/
+    SELECT id, source, status, started_at AS "startedAt", finished_at AS "finishedAt"
+    FROM sync_runs
+    ${since ? db`WHERE started_at >= ${since}` : db``}
+    ORDER BY started_at DESC
+    LIMIT ${limit};
+  `;
+  return [...runs].reverse();
+}
+
+/**
+ * Resolves the --to option of pitr-restore: the id of a sync run (as logged
+ * by sync-upstream, and in its reports) to restore to just before it started,
+ * or a timestamp, in the local time zone unless it has one.
+ */
+export async function resolveRecoveryTarget(db: postgres.Sql, value: string): Promise<RecoveryTarget> {
+  if (RUN_ID_PATTERN.test(value)) {
+    const [run] = await hasSyncRuns(db)
+      ? await db<SyncRun[]>`/*NO LOAD BALANCE*/
+          SELECT id, source, status, started_at AS "startedAt", finished_at AS "finishedAt"
+          FROM sync_runs
+          WHERE id = ${value};
+        `
+      : [];
+    if (!run) {
+      throw new Error(`No sync run with id ${value} was found in sync_runs`);
+    }
+    return { time: run.startedAt, run };
+  }
+
+  const time = new Date(value);
+  if (isNaN(time.getTime())) {
+    throw new Error(`Invalid --to "${value}": expected a timestamp (e.g. 2025-03-01T12:00:00Z) or a sync run id`);
+  }
+  return { time, run: null };
+}
@@ -0,0 +1,141 @@
+import { writeFile } from 'node:fs/promises';
+
+/**
+ * Machine-readable run reports written by sync-upstream and merge-dump with
+ * --json (one line on stdout) or --report <file>. The schema is documented in
+ * the README under "Machine-Readable Reports"; bump REPORT_SCHEMA_VERSION on
+ * any change that is not a backwards-compatible addition.
+ */
+export const REPORT_SCHEMA_VERSION = 1;
+
+export const REPORT_TABLES = ['players', 'events', 'standings', 'matches', 'decks', 'archetypes'] as const;
+
+export type ReportTable = typeof REPORT_TABLES[number];
+
+export interface TableCounts {
+  inserted: number;
+  updated: number;
+  // Rows that were already up to date, or could not be written
+  skipped: number;
+  deleted: number;
+}
+
+export interface ReportMessage {
+  code: string;
+  message: string;
+  [detail: string]: unknown;
+}
+
+export interface RunReport {
+  schemaVersion: number;
+  tool: 'sync-upstream' | 'merge-dump';
+  mode: string;
+  dryRun: boolean;
+  runId: string | null;
+  status: 'running' | 'completed' | 'skipped' | 'failed';
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  source: string;
+  target: string;
+  tables: Record<ReportTable, TableCounts>;
+  eventIds: number[];
+  warnings: ReportMessage[];
+  errors: ReportMessage[];
+}
+
+export interface ReportOptions {
+  json: boolean;
+  file: string | null;
+}
+
+export function createReport(
+  tool: RunReport['tool'],
+  mode: string,
+  source: string,
+  target: string,
+  dryRun = false
+): RunReport {
+  const tables = {} as Record<ReportTable, TableCounts>;
+  for (const table of REPORT_TABLES) {
+    tables[table] = { inserted: 0, updated: 0, skipped: 0, deleted: 0 };
+  }
+
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    tool,
+    mode,
+    dryRun,
+    runId: null,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    durationMs: null,
+    source,
+    target,
+    tables,
+    eventIds: [],
+    warnings: [],
+    errors: [],
+  };
+}
+
+export function addCounts(report: RunReport, table: ReportTable, counts: Partial<TableCounts>): void {
+  const totals = report.tables[table];
+  totals.inserted += counts.inserted ?? 0;
+  totals.updated += counts.updated ?? 0;
+  totals.skipped += counts.skipped ?? 0;
+  totals.deleted += counts.deleted ?? 0;
+}
+
+export function addEventIds(report: RunReport, eventIds: Iterable<number>): void {
+  const ids = new Set(report.eventIds);
+  for (const id of eventIds) ids.add(id);
+  report.eventIds = Array.from(ids).sort((a, b) => a - b);
+}
+
+export function addWarning(
+  report: RunReport,
+  code: string,
+  message: string,
+  details: Record<string, unknown> = {}
+): void {
+  report.warnings.push({ code, message, ...details });
+}
+
+export function addError(report: RunReport, err: unknown): void {
+  const code = (err as NodeJS.ErrnoException)?.code;
+  report.errors.push({
+    code: typeof code === 'string' ? code : 'error',
+    message: err instanceof Error ? err.message : String(err),
+  });
+}
+
+export function finishReport(report: RunReport, status: RunReport['status']): void {
+  const finishedAt = new Date();
+  report.status = status;
+  report.finishedAt = finishedAt.toISOString();
+  report.durationMs = finishedAt.getTime() - new Date(report.startedAt).getTime();
+}
+
+/**
+ * Prints the report as a single JSON line on stdout (--json) and/or writes it
+ * to a file (--report), replacing any earlier report in that file.
+ */
+export async function writeReport(report: RunReport, options: ReportOptions): Promise<void> {
+  if (options.file) {
+    await writeFile(options.file, JSON.stringify(report, null, 2) + '\n');
+  }
+  if (options.json) {
+    process.stdout.write(JSON.stringify(report) + '\n');
+  }
+}
+
+/**
+ * With --json, stdout is reserved for the report, so the human-readable
+ * progress output is moved to stderr.
+ */
+export function useStderrForLogs(): void {
+  console.log = console.error;
+  console.info = console.error;
+}
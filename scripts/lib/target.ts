@@ -0,0 +1,192 @@
+import postgres from 'postgres';
+import { spawn, type ChildProcess, type StdioOptions } from 'node:child_process';
+
+/**
+ * Database targets of the dump scripts (export-dump, import-dump and
+ * merge-dump), and how to run the PostgreSQL client tools against them.
+ *
+ * Without --target, the scripts work on the database configured in .env. A
+ * target is either a connection string, or the name of one stored in the
+ * environment as POSTGRES_TARGET_<NAME> (e.g. --target staging reads
+ * POSTGRES_TARGET_STAGING).
+ *
+ * pg_dump, pg_restore and psql run inside the postgres-prod container when it
+ * is running and the target is the local database, and are otherwise taken
+ * from the PATH, connecting to the target over the network.
+ */
+
+export type ToolMode = 'docker' | 'local';
+
+export type PostgresTool = 'pg_dump' | 'pg_restore' | 'psql';
+
+export interface Target {
+  // 'local' for the database configured in .env, the target's name, or empty
+  // for a connection string
+  name: string;
+  host: string;
+  // Port for queries (Pgpool for the local database)
+  port: number;
+  // Port of the primary server itself, for creating databases and running tools
+  directPort: number;
+  user: string;
+  password: string;
+  database: string;
+  // libpq sslmode of a connection string, if any
+  sslmode: string | null;
+}
+
+export interface Tools {
+  mode: ToolMode;
+  spawn(tool: PostgresTool, args: string[], database: string, stdio: StdioOptions): ChildProcess;
+}
+
+const CONTAINER = 'postgres-prod';
+
+function parseConnectionString(name: string, connectionString: string): Target {
+  let url: URL;
+  try {
+    url = new URL(connectionString.replace(/^postgres:/, 'postgresql:'));
+  } catch {
+    throw new Error(`Invalid connection string${name ? ` for target ${name}` : ''}`);
+  }
+
+  const port = parseInt(url.port) || 5432;
+  return {
+    name,
+    host: url.hostname,
+    port,
+    directPort: port,
+    user: decodeURIComponent(url.username),
+    password: decodeURIComponent(url.password),
+    database: decodeURIComponent(url.pathname.slice(1)) || 'postgres',
+    sslmode: url.searchParams.get('sslmode'),
+  };
+}
+
+/**
+ * Resolves the --target option: the local database when it is omitted (or
+ * "local"), a connection string, or a named target from the environment.
+ */
+export function resolveTarget(value: string | undefined): Target {
+  if (value === undefined || value === 'local') {
+    return {
+      name: 'local',
+      host: process.env.POSTGRES_HOST || '127.0.0.1',
+      port: Number(process.env.POSTGRES_PORT) || 6432,
+      directPort: Number(process.env.POSTGRES_DIRECT_PORT) || 5433,
+      user: process.env.POSTGRES_USER!,
+      password: process.env.POSTGRES_PASSWORD!,
+      database: process.env.POSTGRES_DB!,
+      sslmode: null,
+    };
+  }
+
+  if (/^postgres(ql)?:\/\//.test(value)) {
+    return parseConnectionString('', value);
+  }
+
+  const variable = `POSTGRES_TARGET_${value.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+  const connectionString = process.env[variable];
+  if (!connectionString) {
+    throw new Error(`Unknown target "${value}": set ${variable} to its connection string, or pass a connection string`);
+  }
+  return parseConnectionString(value, connectionString);
+}
+
+/**
+ * Connects to a database of the target: through its query port by default,
+ * or to the primary server itself with direct.
+ */
+export function connect(
+  target: Target,
+  options: { database?: string; direct?: boolean } = {}
+): postgres.Sql {
+  return postgres({
+    host: target.host,
+    port: options.direct ? target.directPort : target.port,
+    user: target.user,
+    password: target.password,
+    database: options.database ?? target.database,
+    ssl: ['require', 'verify-ca', 'verify-full'].includes(target.sslmode ?? '')
+      ? (target.sslmode === 'require' ? 'require' : true)
+      : false,
+  });
+}
+
+function succeeds(command: string, args: string[]): Promise<string | null> {
+  return new Promise((resolve) => {
+    const proc = spawn(command, args, { stdio: ['ignore', 'pipe', 'ignore'] });
+    let stdout = '';
+    proc.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+    proc.on('error', () => resolve(null));
+    proc.on('close', (code) => resolve(code === 0 ? stdout : null));
+  });
+}
+
+export async function isContainerRunning(): Promise<boolean> {
+  const names = await succeeds('docker', ['ps', '--filter', `name=${CONTAINER}`, '--format', '{{.Names}}']);
+  return names !== null && names.split('\n').some(name => name.trim() === CONTAINER);
+}
+
+/**
+ * The libpq environment for running client tools installed on this machine
+ * against the target's primary server.
+ */
+export function toolEnv(target: Target): NodeJS.ProcessEnv {
+  return {
+    ...process.env,
+    PGHOST: target.host,
+    PGPORT: String(target.directPort),
+    PGUSER: target.user,
+    PGPASSWORD: target.password,
+    PGSSLMODE: target.sslmode ?? 'prefer',
+  };
+}
+
+/**
+ * Picks how to run the client tools for a target: inside the postgres-prod
+ * container for the local database while it runs, and otherwise with the
+ * tools installed on this machine, which must then exist.
+ */
+export async function getTools(target: Target, required: PostgresTool[]): Promise<Tools> {
+  if (target.name === 'local' && await isContainerRunning()) {
+    return {
+      mode: 'docker',
+      spawn: (tool, args, database, stdio) => spawn('docker', [
+        'exec',
+        ...(Array.isArray(stdio) && stdio[0] === 'pipe' ? ['-i'] : []),
+        CONTAINER,
+        tool,
+        '-U',
+        target.user,
+        '-d',
+        database,
+        ...args,
+      ], { stdio }),
+    };
+  }
+
+  for (const tool of required) {
+    if (await succeeds(tool, ['--version']) === null) {
+      throw new Error(target.name === 'local'
+        ? `The ${CONTAINER} container is not running, and ${tool} is not installed. Start it with: pnpm start, or install the PostgreSQL client tools.`
+        : `${tool} is not installed. Install the PostgreSQL client tools (of the same or a newer major version than the server) to use --target.`);
+    }
+  }
+
+  const env = toolEnv(target);
+
+  return {
+    mode: 'local',
+    spawn: (tool, args, database, stdio) => spawn(tool, ['-d', database, ...args], { stdio, env }),
+  };
+}
+
+export function describeTarget(target: Target, tools?: Tools): string {
+  const where = `${target.database} on ${target.host}:${target.directPort}`;
+  const label = target.name === 'local' || !target.name ? where : `${target.name} (${where})`;
+  if (!tools) return label;
+  return `${label}, using ${tools.mode === 'docker' ? `the ${CONTAINER} container` : 'local client tools'}`;
+}
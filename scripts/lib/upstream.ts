@@ -0,0 +1,50 @@
+import postgres from 'postgres';
+
+/**
+ * The upstream database that sync-upstream and reconcile-players read from,
+ * configured as UPSTREAM_CONNECTION_STRING.
+ */
+
+export interface Upstream {
+  // Connection options, or the connection string itself if it isn't a valid URL
+  options: postgres.Options<{}> | string;
+  // Identifies the upstream without its credentials
+  source: string;
+}
+
+/**
+ * Parses the connection string into connection options, which decodes
+ * URL-encoded database names. A connection string that can't be parsed as a
+ * URL is used as is.
+ */
+export function parseUpstream(connectionString: string): Upstream {
+  let url: URL;
+  try {
+    url = new URL(connectionString.replace(/^postgres:/, 'postgresql:'));
+  } catch {
+    console.warn('Warning: Could not parse connection string URL, using as-is');
+    return { options: connectionString, source: connectionString.replace(/\/\/[^@/]*@/, '//') };
+  }
+
+  const options: postgres.Options<{}> = {
+    host: url.hostname,
+    port: parseInt(url.port) || 5432,
+    database: decodeURIComponent(url.pathname.slice(1)),
+    user: url.username,
+    password: url.password,
+    max: 5,
+    idle_timeout: 20,
+    connect_timeout: 30,
+  };
+
+  const sslmode = url.searchParams.get('sslmode');
+  if (sslmode !== null && sslmode !== 'disable') {
+    options.ssl = sslmode === 'require' ? 'require' : true;
+  }
+
+  return { options, source: `${options.host}:${options.port}/${options.database}` };
+}
+
+export function connectUpstream(upstream: Upstream): postgres.Sql {
+  return typeof upstream.options === 'string' ? postgres(upstream.options) : postgres(upstream.options);
+}
@@ -0,0 +1,73 @@
+import postgres from 'postgres';
+import dotenv from 'dotenv';
+import { parseArgs } from 'node:util';
+import { clearWriteLock, getLockHolder } from './lib/lock.ts';
+import { formatAge } from './lib/duration.ts';
+
+dotenv.config();
+
+/**
+ * Shows which script holds the database write lock taken by sync-upstream,
+ * reconcile-players, merge-dump, import-dump, backup restore, pitr-restore
+ * and migrate, and optionally releases it.
+ *
+ * Usage:
+ *   pnpm run locks [--clear]
+ *
+ * Options:
+ *   --clear           Release the lock by terminating the holder's connection
+ */
+
+const { values: args } = parseArgs({
+  options: {
+    'clear': { type: 'boolean', default: false },
+  },
+});
+
+// Connect to local database via PgBouncer
+const sql = postgres({
+  host: process.env.POSTGRES_HOST || '127.0.0.1',
+  port: Number(process.env.POSTGRES_PORT) || 6432,
+  user: process.env.POSTGRES_USER,
+  password: process.env.POSTGRES_PASSWORD,
+  database: process.env.POSTGRES_DB,
+});
+
+async function showLocks(): Promise<void> {
+  try {
+    const holder = await getLockHolder(sql);
+
+    if (!holder) {
+      console.log('No script holds the write lock.');
+      return;
+    }
+
+    console.log('Write lock holder:');
+    console.log(`  Script:      ${holder.script}`);
+    console.log(`  Host:        ${holder.host}`);
+    console.log(`  Process ID:  ${holder.pid ?? 'unknown'}`);
+    console.log(`  Since:       ${holder.since.toISOString()} (${formatAge(holder.since)} ago)`);
+    console.log(`  Backend PID: ${holder.backendPid} (${holder.state ?? 'unknown state'})`);
+    console.log('');
+
+    if (!args['clear']) {
+      console.log('If the holder is no longer running (or hung), release the lock with --clear.');
+      return;
+    }
+
+    const cleared = await clearWriteLock(sql);
+    if (cleared) {
+      console.log(`✓ Released the lock held by ${cleared.script} on ${cleared.host} by terminating its connection.`);
+    } else {
+      console.log('The lock was released before it could be cleared.');
+    }
+
+  } catch (err) {
+    console.error('Error inspecting locks:', err);
+    process.exitCode = 1;
+  } finally {
+    await sql.end();
+  }
+}
+
+showLocks();
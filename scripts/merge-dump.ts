@@ -1,343 +1,884 @@
 import postgres from 'postgres';
 import dotenv from 'dotenv';
-import { spawn } from 'child_process';
-import { createReadStream } from 'fs';
+import { createWriteStream } from 'fs';
+import { unlink } from 'fs/promises';
 import { resolve } from 'path';
+import { once } from 'node:events';
+import { parseArgs } from 'node:util';
+import {
+  addCounts,
+  addError,
+  addEventIds,
+  addWarning,
+  createReport,
+  finishReport,
+  useStderrForLogs,
+  writeReport,
+  type ReportOptions,
+  type ReportTable,
+} from './lib/report.ts';
+import { acquireWriteLock, describeHolder, type WriteLock } from './lib/lock.ts';
+import { parseDuration } from './lib/duration.ts';
+import { copyOut } from './lib/copy.ts';
+import { describeDump, detectDumpFormat, restoreDump } from './lib/dump.ts';
+import {
+  compareCounts,
+  countRows,
+  describeMismatches,
+  getSchemaVersion,
+  readManifest,
+  verifyDump,
+} from './lib/manifest.ts';
+import { getMigrationVersion } from './lib/migrations.ts';
+import { connect, describeTarget, getTools, resolveTarget, type Target } from './lib/target.ts';
 
 dotenv.config();
 
 const TEMP_DB = 'mtgo_temp_merge';
+const STAGING_SCHEMA = 'merge_staging';
 
-// Connect to local database via PgBouncer
-const sql = postgres({
-  host: '127.0.0.1',
-  port: Number(process.env.POSTGRES_PORT) || 6432,
-  user: process.env.POSTGRES_USER,
-  password: process.env.POSTGRES_PASSWORD,
-  database: process.env.POSTGRES_DB,
+// Conflicting rows shown as examples per table
+const CONFLICT_EXAMPLES = 3;
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    'json': { type: 'boolean', default: false },
+    'report': { type: 'string' },
+    'wait': { type: 'string' },
+    'policy': { type: 'string', multiple: true },
+    'rejects': { type: 'string' },
+    'target': { type: 'string' },
+  },
 });
 
+const reportOptions: ReportOptions = { json: args['json'], file: args['report'] ?? null };
+
+if (reportOptions.json) {
+  useStderrForLogs();
+}
+
+let target: Target;
+try {
+  target = resolveTarget(args['target']);
+} catch (err) {
+  console.error(`Error: ${(err as Error).message}`);
+  process.exit(1);
+}
+
+// Connect to the target database (via Pgpool for the local one)
+const sql = connect(target);
+
 // Connect directly to PostgreSQL for administration
-const sqlDirect = postgres({
-  host: '127.0.0.1',
-  port: 5433,
-  user: process.env.POSTGRES_USER,
-  password: process.env.POSTGRES_PASSWORD,
-  database: 'postgres', // Default database
-});
+const sqlDirect = connect(target, { direct: true, database: 'postgres' });
 
-interface MergeStats {
-  events: number;
-  players: number;
-  matches: number;
-  decks: number;
-  standings: number;
-  archetypes: number;
-}
-
-async function execDockerPsql(database: string, command: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const proc = spawn('docker', [
-      'exec',
-      '-i',
-      'postgres-prod',
-      'psql',
-      '-U',
-      process.env.POSTGRES_USER!,
-      '-d',
-      database,
-      '-c',
-      command,
-    ]);
-
-    let stderr = '';
-    proc.stderr.on('data', (data) => {
-      stderr += data.toString();
-    });
+type MergePolicy = 'keep-local' | 'prefer-dump' | 'fill-nulls' | 'report-only';
 
-    proc.on('close', (code) => {
-      if (code !== 0) {
-        reject(new Error(`Command failed: ${stderr}`));
-      } else {
-        resolve();
-      }
+const MERGE_POLICIES: readonly MergePolicy[] = ['keep-local', 'prefer-dump', 'fill-nulls', 'report-only'];
+
+interface TableStats {
+  inserted: number;
+  updated: number;
+  // Rows left out, per reason
+  rejected: Record<string, number>;
+}
+
+type MergeStats = Record<ReportTable, TableStats>;
+
+interface StagedTable {
+  // Columns present in both the dump and the local table
+  columns: string[];
+  rows: number;
+  // Unique keys of the local table
+  uniqueKeys: UniqueKey[];
+}
+
+interface FieldDiff {
+  local: unknown;
+  dump: unknown;
+}
+
+interface ConflictSummary {
+  table: ReportTable;
+  policy: MergePolicy;
+  // Rows with the same key locally and in the dump, but differing fields
+  count: number;
+  // Conflicting rows updated from the dump
+  resolved: number;
+  // Number of conflicting rows per differing field
+  fields: Record<string, number>;
+  examples: { key: Record<string, unknown>; fields: Record<string, FieldDiff> }[];
+}
+
+interface Reference {
+  // Reason recorded for rows rejected because the reference doesn't resolve
+  reason: string;
+  // Condition on the staged row (aliased s)
+  condition: string;
+}
+
+interface TableSpec {
+  // Key matching dump rows to local rows
+  key: string[];
+  // Column holding the event ID of a row, for the report
+  eventColumn?: string;
+  // Players, events and decks a staged row references, which must exist
+  // locally (or have been merged) for the row to be merged
+  references: Reference[];
+}
+
+interface UniqueKey {
+  // Name of the unique index or constraint
+  name: string;
+  columns: string[];
+}
+
+// Tables in merge order, so that rows are merged after the rows they reference
+const MERGE_TABLES = ['players', 'events', 'decks', 'matches', 'standings', 'archetypes'] as const;
+
+const EVENT_REFERENCE: Reference = {
+  reason: 'missing-event',
+  condition: 's.event_id IS NULL OR s.event_id IN (SELECT id FROM public.events)',
+};
+
+const PLAYER_REFERENCE: Reference = {
+  reason: 'missing-player',
+  condition: 's.player IS NULL OR s.player IN (SELECT name FROM public.players)',
+};
+
+const TABLE_SPECS: Record<ReportTable, TableSpec> = {
+  // Players are matched by name, as the other tables reference them by name
+  players: {
+    key: ['name'],
+    references: [],
+  },
+  events: {
+    key: ['id'],
+    eventColumn: 'id',
+    references: [],
+  },
+  decks: {
+    key: ['id'],
+    eventColumn: 'event_id',
+    references: [EVENT_REFERENCE, PLAYER_REFERENCE],
+  },
+  matches: {
+    key: ['event_id', 'round', 'player'],
+    eventColumn: 'event_id',
+    references: [EVENT_REFERENCE, PLAYER_REFERENCE, {
+      reason: 'missing-opponent',
+      condition: 's.opponent IS NULL OR s.opponent IN (SELECT name FROM public.players)',
+    }],
+  },
+  standings: {
+    key: ['event_id', 'player'],
+    eventColumn: 'event_id',
+    references: [EVENT_REFERENCE, PLAYER_REFERENCE],
+  },
+  archetypes: {
+    key: ['id'],
+    references: [{
+      reason: 'missing-deck',
+      condition: 's.deck_id IS NULL OR s.deck_id IN (SELECT id FROM public.decks)',
+    }],
+  },
+};
+
+/**
+ * Parses --policy values, each either a policy for all tables or a
+ * comma-separated list of <table>=<policy> overrides.
+ */
+function parsePolicies(values: string[]): Record<ReportTable, MergePolicy> | null {
+  const policies = {} as Record<ReportTable, MergePolicy>;
+  MERGE_TABLES.forEach(table => policies[table] = 'keep-local');
+
+  const isPolicy = (value: string): value is MergePolicy => (MERGE_POLICIES as string[]).includes(value);
+  const isTable = (value: string): value is ReportTable => (MERGE_TABLES as readonly string[]).includes(value);
+
+  // Apply defaults before per-table overrides, regardless of their order
+  const entries = values.flatMap(v => v.split(',')).map(v => v.trim()).filter(Boolean);
+  for (const entry of entries.filter(e => !e.includes('='))) {
+    if (!isPolicy(entry)) return null;
+    MERGE_TABLES.forEach(table => policies[table] = entry);
+  }
+  for (const entry of entries.filter(e => e.includes('='))) {
+    const [table, policy] = entry.split('=');
+    if (!isTable(table) || !isPolicy(policy)) return null;
+    policies[table] = policy;
+  }
+
+  return policies;
+}
+
+const report = createReport('merge-dump', 'merge', positionals[0] ?? '', target.database);
+
+function warnSkipped(table: ReportTable): void {
+  const skipped = report.tables[table].skipped;
+  if (skipped > 0) {
+    addWarning(report, 'rows-skipped', `Skipped ${skipped} ${table} row(s) that already exist or violate constraints`, {
+      table,
+      count: skipped,
     });
+  }
+}
+
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function referencesResolve(spec: TableSpec): string {
+  return spec.references.map(r => `(${r.condition})`).join(' AND ') || 'TRUE';
+}
+
+function keyMatch(spec: TableSpec, a: string, b: string): string {
+  return spec.key.map(c => `${a}.${quoteIdent(c)} = ${b}.${quoteIdent(c)}`).join(' AND ');
+}
+
+async function getColumns(db: postgres.Sql, table: string): Promise<string[]> {
+  const rows = await db<{ column_name: string }[]>`/*NO LOAD BALANCE*/
+    SELECT column_name FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = ${table}
+    ORDER BY ordinal_position;
+  `;
+  return rows.map(r => r.column_name);
+}
+
+async function getUniqueKeys(table: string): Promise<UniqueKey[]> {
+  // Unique indexes include those of primary keys and unique constraints
+  return await sql<UniqueKey[]>`/*NO LOAD BALANCE*/
+    SELECT c.relname AS name, array_agg(a.attname::text ORDER BY k.ord) AS columns
+    FROM pg_index i
+    JOIN pg_class c ON c.oid = i.indexrelid
+    CROSS JOIN unnest(i.indkey::int2[]) WITH ORDINALITY k(attnum, ord)
+    JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = k.attnum
+    WHERE i.indrelid = ${`public.${table}`}::regclass
+      AND i.indisunique
+      AND i.indpred IS NULL
+      AND NOT 0 = ANY(i.indkey::int2[])
+    GROUP BY c.relname
+    ORDER BY c.relname;
+  `;
+}
+
+async function dropStaging(): Promise<void> {
+  await sql.begin(async (tx) => {
+    // Hide the notices listing the dropped tables
+    await tx`SET LOCAL client_min_messages = warning`;
+    await tx.unsafe(`DROP SCHEMA IF EXISTS ${STAGING_SCHEMA} CASCADE`);
   });
 }
 
-async function importDumpToTemp(dumpFile: string): Promise<void> {
-  const absPath = resolve(dumpFile);
-  
-  return new Promise((resolve, reject) => {
-    // Use pg_restore for custom format dumps (i.e. with --no-owner and --no-acl)
-    const proc = spawn('docker', [
-      'exec',
-      '-i',
-      'postgres-prod',
-      'pg_restore',
-      '--no-owner',
-      '--no-acl',
-      '-U',
-      process.env.POSTGRES_USER!,
-      '-d',
-      TEMP_DB,
-    ]);
-
-    const fileStream = createReadStream(absPath);
-    
-    let stderr = '';
-    let streamEnded = false;
-    let procClosed = false;
-    
-    proc.stderr.on('data', (data) => {
-      const msg = data.toString();
-      // Filter out expected warnings
-      if (!msg.includes('role') && 
-          !msg.includes('does not exist') &&
-          !msg.includes('already exists') &&
-          !msg.includes('extension')) {
-        stderr += msg;
-      }
-    });
+/**
+ * Copies the tables restored into the temporary database into a staging
+ * schema of the local database, streaming them with COPY. The staging tables
+ * take the local column types but no constraints, and leave out any columns
+ * the local tables don't have (or the dump doesn't have).
+ */
+async function stageDump(): Promise<Map<ReportTable, StagedTable>> {
+  const staged = new Map<ReportTable, StagedTable>();
 
-    fileStream.on('end', () => {
-      streamEnded = true;
-      proc.stdin.end();
-    });
+  // Connect to temp database to read the dump from it
+  const sqlTemp = connect(target, { direct: true, database: TEMP_DB });
 
-    fileStream.on('error', (err) => {
-      proc.kill();
-      reject(err);
-    });
+  try {
+    await dropStaging();
+    await sql.unsafe(`CREATE SCHEMA ${STAGING_SCHEMA}`);
 
-    proc.stdin.on('error', (err) => {
-      // Ignore EPIPE errors (broken pipe when pg_restore exits before stream finishes)
-      if (err.message !== 'write EOF' && !err.message.includes('EPIPE')) {
-        console.error('stdin error:', err);
+    for (const table of MERGE_TABLES) {
+      const dumpColumns = await getColumns(sqlTemp, table);
+      if (dumpColumns.length === 0) {
+        console.log(`  - ${table}: not in dump`);
+        continue;
       }
-    });
 
-    proc.on('close', (code) => {
-      procClosed = true;
-      // pg_restore may exit with code 1 even on success due to warnings
-      // Only reject if there are actual errors in stderr
-      if (code !== 0 && stderr && !stderr.includes('WARNING')) {
-        reject(new Error(`Import failed: ${stderr}`));
-      } else {
-        resolve();
+      const columns = (await getColumns(sql, table)).filter(c => dumpColumns.includes(c));
+      const ignored = dumpColumns.filter(c => !columns.includes(c));
+      if (ignored.length > 0) {
+        console.log(`    Ignoring ${table} column(s) missing locally: ${ignored.join(', ')}`);
+      }
+      const missingKey = TABLE_SPECS[table].key.filter(c => !columns.includes(c));
+      if (missingKey.length > 0) {
+        throw new Error(`The dump's ${table} table lacks key column(s): ${missingKey.join(', ')}`);
       }
-    });
 
-    fileStream.pipe(proc.stdin);
-  });
+      const list = columns.map(quoteIdent).join(', ');
+      await sql.unsafe(`
+        CREATE UNLOGGED TABLE ${STAGING_SCHEMA}.${table} AS
+        SELECT ${list} FROM public.${table} WITH NO DATA
+      `);
+
+      const staging = await sql.unsafe(`COPY ${STAGING_SCHEMA}.${table} (${list}) FROM STDIN`).writable();
+      await copyOut(target, `public.${table} (${list})`, staging, { direct: true, database: TEMP_DB });
+      await sql.unsafe(`ANALYZE ${STAGING_SCHEMA}.${table}`);
+
+      const [{ count }] = await sql.unsafe(`/*NO LOAD BALANCE*/
+        SELECT COUNT(*)::int AS count FROM ${STAGING_SCHEMA}.${table}
+      `);
+      staged.set(table, { columns, rows: count, uniqueKeys: await getUniqueKeys(table) });
+      console.log(`  ✓ Staged ${count.toLocaleString()} ${table}`);
+    }
+  } finally {
+    await sqlTemp.end();
+  }
+
+  return staged;
 }
 
-async function mergeDatabases(): Promise<MergeStats> {
-  const stats: MergeStats = {
-    events: 0,
-    players: 0,
-    matches: 0,
-    decks: 0,
-    standings: 0,
-    archetypes: 0,
-  };
+/**
+ * Summarizes the staged rows that exist locally with differing fields: how
+ * many differ in each field, and a few examples.
+ */
+async function findConflicts(
+  tx: postgres.TransactionSql,
+  table: ReportTable,
+  compared: string[]
+): Promise<Pick<ConflictSummary, 'count' | 'fields' | 'examples'>> {
+  const spec = TABLE_SPECS[table];
+  const key = spec.key.map(c => `${quoteLiteral(c)}, s.${quoteIdent(c)}`).join(', ');
+  const diffs = compared.map(c => `(
+    ${quoteLiteral(c)}, t.${quoteIdent(c)} IS DISTINCT FROM s.${quoteIdent(c)},
+    to_jsonb(t.${quoteIdent(c)}), to_jsonb(s.${quoteIdent(c)})
+  )`).join(', ');
+  const local = compared.map(c => `t.${quoteIdent(c)}`).join(', ');
+  const dump = compared.map(c => `s.${quoteIdent(c)}`).join(', ');
 
-  console.log('Analyzing differences between databases...\n');
+  const [result] = await tx.unsafe(`
+    WITH conflicts AS (
+      SELECT
+        jsonb_build_object(${key}) AS key,
+        (
+          SELECT jsonb_object_agg(d.field, jsonb_build_object('local', d.local, 'dump', d.dump))
+          FROM (VALUES ${diffs}) d(field, differs, local, dump)
+          WHERE d.differs
+        ) AS fields
+      FROM ${STAGING_SCHEMA}.${table} s
+      JOIN public.${table} t ON ${keyMatch(spec, 't', 's')}
+      WHERE ROW(${local}) IS DISTINCT FROM ROW(${dump})
+    )
+    SELECT
+      (SELECT COUNT(*)::int FROM conflicts) AS count,
+      (
+        SELECT COALESCE(jsonb_object_agg(field, n), '{}')
+        FROM (
+          SELECT field, COUNT(*)::int AS n
+          FROM conflicts, jsonb_object_keys(conflicts.fields) field
+          GROUP BY field
+        ) f
+      ) AS fields,
+      (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('key', key, 'fields', fields)), '[]')
+        FROM (SELECT * FROM conflicts LIMIT ${CONFLICT_EXAMPLES}) e
+      ) AS examples
+  `);
 
-  // Connect to temp database to query it
-  const sqlTemp = postgres({
-    host: '127.0.0.1',
-    port: 5433,
-    user: process.env.POSTGRES_USER,
-    password: process.env.POSTGRES_PASSWORD,
-    database: TEMP_DB,
-  });
+  return { count: result.count, fields: result.fields, examples: result.examples };
+}
 
-  try {
-    // 1. Merge Players (upsert)
-    console.log('Merging players...');
-    const newPlayers = await sqlTemp`
-      SELECT id, name FROM players
-      WHERE id NOT IN (SELECT id FROM dblink(
-        'host=localhost port=5432 dbname=${sql.unsafe(process.env.POSTGRES_DB!)} user=${sql.unsafe(process.env.POSTGRES_USER!)} password=${sql.unsafe(process.env.POSTGRES_PASSWORD!)}',
-        'SELECT id FROM players'
-      ) AS t(id INT))
-    `;
-    
-    for (const player of newPlayers) {
-      await sql`INSERT INTO players (id, name) VALUES (${player.id}, ${player.name}) ON CONFLICT (id) DO NOTHING`;
-      stats.players++;
+type UpdatePolicy = 'prefer-dump' | 'fill-nulls';
+
+// Value of a column after a local row (aliased t) is updated from the dump
+function newValue(policy: UpdatePolicy, compared: string[], c: string): string {
+  if (!compared.includes(c)) return `t.${quoteIdent(c)}`;
+  return policy === 'prefer-dump'
+    ? `s.${quoteIdent(c)}`
+    : `COALESCE(t.${quoteIdent(c)}, s.${quoteIdent(c)})`;
+}
+
+// Whether updating a local row from the dump would change it
+function needsUpdate(policy: UpdatePolicy, compared: string[]): string {
+  return policy === 'prefer-dump'
+    ? `ROW(${compared.map(c => `t.${quoteIdent(c)}`).join(', ')}) IS DISTINCT FROM ROW(${compared.map(c => `s.${quoteIdent(c)}`).join(', ')})`
+    : compared.map(c => `(t.${quoteIdent(c)} IS NULL AND s.${quoteIdent(c)} IS NOT NULL)`).join(' OR ');
+}
+
+// Whether another local row than the one matching `self` holds the given values of a unique key
+function collides(table: ReportTable, unique: UniqueKey, value: (c: string) => string, self: string | null): string {
+  const spec = TABLE_SPECS[table];
+  return `EXISTS (
+    SELECT 1 FROM public.${table} o
+    WHERE ${unique.columns.map(c => `o.${quoteIdent(c)} = ${value(c)}`).join(' AND ')}
+      ${self ? `AND NOT (${keyMatch(spec, 'o', self)})` : ''}
+  )`;
+}
+
+/**
+ * Updates conflicting local rows from the dump: with prefer-dump all differing
+ * fields are taken from the dump, with fill-nulls only fields that are null
+ * locally. Rows that would collide with another row on a unique key are left
+ * unchanged.
+ */
+async function updateConflicts(
+  tx: postgres.TransactionSql,
+  table: ReportTable,
+  compared: string[],
+  uniqueKeys: UniqueKey[],
+  policy: UpdatePolicy
+): Promise<{ count: number; eventIds: number[] }> {
+  const spec = TABLE_SPECS[table];
+  const value = (c: string) => newValue(policy, compared, c);
+
+  const collisions = uniqueKeys
+    .filter(unique => unique.columns.some(c => compared.includes(c)))
+    .map(unique => `AND NOT ${collides(table, unique, value, 't')}`)
+    .join('\n');
+
+  const [result] = await tx.unsafe(`
+    WITH updated AS (
+      UPDATE public.${table} t
+      SET ${compared.map(c => `${quoteIdent(c)} = ${value(c)}`).join(', ')}
+      FROM ${STAGING_SCHEMA}.${table} s
+      WHERE ${keyMatch(spec, 't', 's')}
+        AND (${needsUpdate(policy, compared)})
+        AND ${referencesResolve(spec)}
+        ${collisions}
+      RETURNING ${spec.eventColumn ? `t.${quoteIdent(spec.eventColumn)}` : 'NULL::int'} AS event_id
+    )
+    SELECT
+      COUNT(*)::int AS count,
+      COALESCE(array_agg(DISTINCT event_id) FILTER (WHERE event_id IS NOT NULL), '{}') AS event_ids
+    FROM updated
+  `);
+
+  return { count: result.count, eventIds: result.event_ids };
+}
+
+async function insertNew(
+  tx: postgres.TransactionSql,
+  table: ReportTable,
+  columns: string[]
+): Promise<{ count: number; eventIds: number[] }> {
+  const spec = TABLE_SPECS[table];
+  const [result] = await tx.unsafe(`
+    WITH inserted AS (
+      INSERT INTO public.${table} (${columns.map(quoteIdent).join(', ')})
+      SELECT ${columns.map(c => `s.${quoteIdent(c)}`).join(', ')}
+      FROM ${STAGING_SCHEMA}.${table} s
+      WHERE ${referencesResolve(spec)}
+      ON CONFLICT DO NOTHING
+      RETURNING ${spec.eventColumn ? quoteIdent(spec.eventColumn) : 'NULL::int'} AS event_id
+    )
+    SELECT
+      COUNT(*)::int AS count,
+      COALESCE(array_agg(DISTINCT event_id) FILTER (WHERE event_id IS NOT NULL), '{}') AS event_ids
+    FROM inserted
+  `);
+
+  return { count: result.count, eventIds: result.event_ids };
+}
+
+async function countNew(tx: postgres.TransactionSql, table: ReportTable): Promise<number> {
+  const spec = TABLE_SPECS[table];
+  const [{ count }] = await tx.unsafe(`/*NO LOAD BALANCE*/
+    SELECT COUNT(*)::int AS count
+    FROM ${STAGING_SCHEMA}.${table} s
+    WHERE ${referencesResolve(spec)}
+      AND NOT EXISTS (SELECT 1 FROM public.${table} t WHERE ${keyMatch(spec, 't', 's')})
+  `);
+  return count;
+}
+
+interface RejectedRow {
+  table: ReportTable;
+  // Whether the row was to be inserted, or to update a conflicting local row
+  action: 'insert' | 'update';
+  key: Record<string, unknown>;
+  // missing-event, missing-player, missing-opponent, missing-deck or unique-violation
+  reason: string;
+  // Unique index or constraint the row collided with, for unique violations
+  constraint: string | null;
+  row: Record<string, unknown>;
+}
+
+interface RejectsFile {
+  write(row: RejectedRow): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Rejected rows fetched at a time while writing them out
+const REJECTS_BATCH_SIZE = 500;
+
+function csvField(value: string | null): string {
+  if (value === null) return '';
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Opens the rejected-rows file, as CSV if its name ends in .csv (with the key
+ * and row as JSON), and as NDJSON otherwise.
+ */
+function openRejectsFile(file: string): RejectsFile {
+  const csv = file.toLowerCase().endsWith('.csv');
+  const stream = createWriteStream(file);
+
+  const writeLine = async (line: string) => {
+    if (!stream.write(line + '\n')) {
+      await once(stream, 'drain');
     }
-    console.log(`  ✓ Added ${stats.players} new players`);
-
-    // 2. Merge Events
-    console.log('Merging events...');
-    const newEvents = await sqlTemp`
-      SELECT id, name, date, format, kind, rounds, players FROM events
-      WHERE id NOT IN (SELECT id FROM dblink(
-        'host=localhost port=5432 dbname=${sql.unsafe(process.env.POSTGRES_DB!)} user=${sql.unsafe(process.env.POSTGRES_USER!)} password=${sql.unsafe(process.env.POSTGRES_PASSWORD!)}',
-        'SELECT id FROM events'
-      ) AS t(id INT))
+  };
+
+  if (csv) {
+    stream.write('table,action,key,reason,constraint,row\n');
+  }
+
+  return {
+    write: (r) => writeLine(csv
+      ? [r.table, r.action, JSON.stringify(r.key), r.reason, r.constraint, JSON.stringify(r.row)].map(csvField).join(',')
+      : JSON.stringify(r)),
+    close: () => new Promise((resolve, reject) => {
+      stream.on('error', reject);
+      stream.end(resolve);
+    }),
+  };
+}
+
+/**
+ * Finds the staged rows the merge left out: new rows that were not inserted,
+ * and (with prefer-dump or fill-nulls) conflicting rows that were not updated.
+ * Must run after the table was merged. Returns the number of rows per reason,
+ * and writes the rows to the rejects file, if any.
+ */
+async function findRejected(
+  tx: postgres.TransactionSql,
+  table: ReportTable,
+  { columns, uniqueKeys }: StagedTable,
+  policy: MergePolicy,
+  rejects: RejectsFile | null
+): Promise<Record<string, number>> {
+  const spec = TABLE_SPECS[table];
+  const compared = columns.filter(c => !spec.key.includes(c));
+  const key = spec.key.map(c => `${quoteLiteral(c)}, s.${quoteIdent(c)}`).join(', ');
+
+  // The first reference that doesn't resolve, or else the first unique key collided with
+  const caseOf = (branches: string[], otherwise: string) =>
+    branches.length > 0 ? `CASE ${branches.join('\n')} ELSE ${otherwise} END` : otherwise;
+  const reason = caseOf(
+    spec.references.map(r => `WHEN NOT (${r.condition}) THEN ${quoteLiteral(r.reason)}`),
+    `'unique-violation'`
+  );
+  const constraint = (value: (c: string) => string, self: string | null) => caseOf([
+    ...spec.references.map(r => `WHEN NOT (${r.condition}) THEN NULL`),
+    ...uniqueKeys.map(u => `WHEN ${collides(table, u, value, self)} THEN ${quoteLiteral(u.name)}`),
+  ], 'NULL');
+  const row = rejects ? 'to_jsonb(s)' : 'NULL::jsonb';
+
+  let query = `/*NO LOAD BALANCE*/
+    SELECT 'insert' AS action, jsonb_build_object(${key}) AS key, ${reason} AS reason,
+      ${constraint(c => `s.${quoteIdent(c)}`, null)} AS constraint_name, ${row} AS row
+    FROM ${STAGING_SCHEMA}.${table} s
+    WHERE NOT EXISTS (SELECT 1 FROM public.${table} t WHERE ${keyMatch(spec, 't', 's')})
+  `;
+  if ((policy === 'prefer-dump' || policy === 'fill-nulls') && compared.length > 0) {
+    // Rows still in need of an update were not updated
+    query += `
+      UNION ALL
+      SELECT 'update', jsonb_build_object(${key}), ${reason},
+        ${constraint(c => newValue(policy, compared, c), 't')}, ${row}
+      FROM ${STAGING_SCHEMA}.${table} s
+      JOIN public.${table} t ON ${keyMatch(spec, 't', 's')}
+      WHERE ${needsUpdate(policy, compared)}
     `;
+  }
 
-    for (const event of newEvents) {
-      await sql`
-        INSERT INTO events (id, name, date, format, kind, rounds, players)
-        VALUES (${event.id}, ${event.name}, ${event.date}, ${event.format}, ${event.kind}, ${event.rounds}, ${event.players})
-        ON CONFLICT (id) DO NOTHING
-      `;
-      stats.events++;
+  const reasons: Record<string, number> = {};
+  for await (const rows of tx.unsafe(query).cursor(REJECTS_BATCH_SIZE)) {
+    for (const r of rows) {
+      reasons[r.reason] = (reasons[r.reason] ?? 0) + 1;
+      await rejects?.write({
+        table,
+        action: r.action,
+        key: r.key,
+        reason: r.reason,
+        constraint: r.constraint_name,
+        row: r.row,
+      });
     }
-    console.log(`  ✓ Added ${stats.events} new events`);
-
-    // 3. Merge Decks (only for new events)
-    console.log('Merging decks...');
-    const newDecks = await sqlTemp`
-      SELECT id, event_id, player, mainboard, sideboard FROM decks
-      WHERE id NOT IN (SELECT id FROM dblink(
-        'host=localhost port=5432 dbname=${sql.unsafe(process.env.POSTGRES_DB!)} user=${sql.unsafe(process.env.POSTGRES_USER!)} password=${sql.unsafe(process.env.POSTGRES_PASSWORD!)}',
-        'SELECT id FROM decks'
-      ) AS t(id INT))
-      AND player IN (SELECT name FROM dblink(
-        'host=localhost port=5432 dbname=${sql.unsafe(process.env.POSTGRES_DB!)} user=${sql.unsafe(process.env.POSTGRES_USER!)} password=${sql.unsafe(process.env.POSTGRES_PASSWORD!)}',
-        'SELECT name FROM players'
-      ) AS t(name VARCHAR))
+  }
+  return reasons;
+}
+
+interface PlayerRemap {
+  name: string;
+  dumpId: number;
+  localId: number;
+  // name-match: the player exists locally under another ID
+  // id-collision: the dump's ID belongs to another local player
+  reason: 'name-match' | 'id-collision';
+}
+
+/**
+ * Maps the staged players onto local players by name, as decks, matches and
+ * standings reference players by name. Players that exist locally take the
+ * local ID, and new players whose ID is held by another local player get a
+ * temporary (negative) ID, as sync-upstream assigns them. Rewrites the IDs in
+ * the staging table, so the players merge like any other table.
+ */
+async function remapPlayers(tx: postgres.TransactionSql): Promise<PlayerRemap[]> {
+  const matched = await tx<{ name: string; dumpId: number; localId: number }[]>`/*NO LOAD BALANCE*/
+    SELECT s.name, s.id AS "dumpId", p.id AS "localId"
+    FROM ${tx(STAGING_SCHEMA)}.players s
+    JOIN public.players p ON p.name = s.name
+    WHERE p.id <> s.id
+    ORDER BY s.name;
+  `;
+  const colliding = await tx<{ name: string; dumpId: number }[]>`/*NO LOAD BALANCE*/
+    SELECT s.name, s.id AS "dumpId"
+    FROM ${tx(STAGING_SCHEMA)}.players s
+    WHERE NOT EXISTS (SELECT 1 FROM public.players p WHERE p.name = s.name)
+      AND EXISTS (SELECT 1 FROM public.players p WHERE p.id = s.id)
+    ORDER BY s.name;
+  `;
+
+  // Temporary IDs continue below the lowest ID in use locally or in the dump
+  const [{ min }] = await tx<{ min: number }[]>`/*NO LOAD BALANCE*/
+    SELECT LEAST(
+      (SELECT MIN(id) FROM public.players),
+      (SELECT MIN(id) FROM ${tx(STAGING_SCHEMA)}.players),
+      0
+    ) AS min;
+  `;
+  let nextNegativeId = min - 1;
+
+  const remaps: PlayerRemap[] = [
+    ...matched.map(p => ({ ...p, reason: 'name-match' as const })),
+    ...colliding.map(p => ({ ...p, localId: nextNegativeId--, reason: 'id-collision' as const })),
+  ];
+
+  if (remaps.length > 0) {
+    await tx`
+      UPDATE ${tx(STAGING_SCHEMA)}.players s
+      SET id = r.local_id
+      FROM (
+        SELECT
+          unnest(${tx.array(remaps.map(r => r.name))}::text[]) AS name,
+          unnest(${tx.array(remaps.map(r => r.localId))}::int[]) AS local_id
+      ) r
+      WHERE s.name = r.name;
     `;
+  }
 
-    for (const deck of newDecks) {
-      try {
-        await sql`
-          INSERT INTO decks (id, event_id, player, mainboard, sideboard)
-          VALUES (${deck.id}, ${deck.event_id}, ${deck.player}, ${deck.mainboard}, ${deck.sideboard})
-          ON CONFLICT (id) DO NOTHING
-        `;
-        stats.decks++;
-      } catch (err) {
-        // Skip decks that violate constraints (missing player/event)
-        console.log(`    Skipped deck ${deck.id} (constraint violation)`);
-      }
+  return remaps;
+}
+
+/**
+ * Merges the staged tables into the local tables with set-based statements
+ * per table, in a single transaction. Rows that already exist are resolved by
+ * the table's policy; new rows are inserted unless they conflict on another
+ * unique key or reference missing players, events or decks.
+ */
+async function mergeStaged(
+  staged: Map<ReportTable, StagedTable>,
+  policies: Record<ReportTable, MergePolicy>,
+  rejects: RejectsFile | null
+): Promise<{ stats: MergeStats; conflicts: ConflictSummary[]; remaps: PlayerRemap[] }> {
+  const stats = {} as MergeStats;
+  MERGE_TABLES.forEach(table => stats[table] = { inserted: 0, updated: 0, rejected: {} });
+  const conflicts: ConflictSummary[] = [];
+  const eventIds = new Set<number>();
+  let remaps: PlayerRemap[] = [];
+
+  await sql.begin(async (tx) => {
+    if (staged.has('players')) {
+      console.log('Matching players by name...');
+      remaps = await remapPlayers(tx);
+      remaps.forEach(r => {
+        const reason = r.reason === 'name-match' ? 'same name locally' : 'ID taken locally';
+        console.log(`  ! ${r.name}: ${r.dumpId} → ${r.localId} (${reason})`);
+      });
+      console.log(`  ✓ Remapped ${remaps.length.toLocaleString()} players`);
     }
-    console.log(`  ✓ Added ${stats.decks} new decks`);
-
-    // 4. Merge Matches (composite key: event_id, round, player)
-    console.log('Merging matches...');
-    const newMatches = await sqlTemp`
-      SELECT id, event_id, round, player, opponent, record, result, isbye, games FROM matches
-      WHERE (event_id, round, player) NOT IN (
-        SELECT event_id, round, player FROM dblink(
-          'host=localhost port=5432 dbname=${sql.unsafe(process.env.POSTGRES_DB!)} user=${sql.unsafe(process.env.POSTGRES_USER!)} password=${sql.unsafe(process.env.POSTGRES_PASSWORD!)}',
-          'SELECT event_id, round, player FROM matches'
-        ) AS t(event_id INT, round INT, player VARCHAR)
-      )
-      AND player IN (SELECT name FROM dblink(
-        'host=localhost port=5432 dbname=${sql.unsafe(process.env.POSTGRES_DB!)} user=${sql.unsafe(process.env.POSTGRES_USER!)} password=${sql.unsafe(process.env.POSTGRES_PASSWORD!)}',
-        'SELECT name FROM players'
-      ) AS t(name VARCHAR))
-      AND event_id IN (SELECT id FROM dblink(
-        'host=localhost port=5432 dbname=${sql.unsafe(process.env.POSTGRES_DB!)} user=${sql.unsafe(process.env.POSTGRES_USER!)} password=${sql.unsafe(process.env.POSTGRES_PASSWORD!)}',
-        'SELECT id FROM events'
-      ) AS t(id INT))
-    `;
 
-    for (const match of newMatches) {
-      try {
-        await sql`
-          INSERT INTO matches (id, event_id, round, player, opponent, record, result, isbye, games)
-          VALUES (${match.id}, ${match.event_id}, ${match.round}, ${match.player}, ${match.opponent}, ${match.record}, ${match.result}, ${match.isbye}, ${match.games})
-          ON CONFLICT (event_id, round, player) DO NOTHING
-        `;
-        stats.matches++;
-      } catch (err) {
-        // Skip matches that violate constraints
+    for (const [table, stagedTable] of staged) {
+      const { columns, uniqueKeys } = stagedTable;
+      const policy = policies[table];
+      const compared = columns.filter(c => !TABLE_SPECS[table].key.includes(c));
+      console.log(`Merging ${table} (${policy})...`);
+
+      // Conflicts are summarized before any update changes the local rows
+      if (compared.length > 0) {
+        const found = await findConflicts(tx, table, compared);
+        if (found.count > 0) {
+          console.log(`  ! ${found.count.toLocaleString()} conflicting ${table}`);
+          conflicts.push({ table, policy, resolved: 0, ...found });
+        }
+
+        if ((policy === 'prefer-dump' || policy === 'fill-nulls') && found.count > 0) {
+          const updated = await updateConflicts(tx, table, compared, uniqueKeys, policy);
+          stats[table].updated = updated.count;
+          conflicts[conflicts.length - 1].resolved = updated.count;
+          updated.eventIds.forEach(id => eventIds.add(id));
+          console.log(`  ✓ Updated ${updated.count.toLocaleString()} ${table}`);
+        }
       }
-    }
-    console.log(`  ✓ Added ${stats.matches} new matches`);
-
-    // 5. Merge Standings (composite key: event_id, player)
-    console.log('Merging standings...');
-    const newStandings = await sqlTemp`
-      SELECT event_id, rank, player, record, points, omwp, gwp, owp FROM standings
-      WHERE (event_id, player) NOT IN (
-        SELECT event_id, player FROM dblink(
-          'host=localhost port=5432 dbname=${sql.unsafe(process.env.POSTGRES_DB!)} user=${sql.unsafe(process.env.POSTGRES_USER!)} password=${sql.unsafe(process.env.POSTGRES_PASSWORD!)}',
-          'SELECT event_id, player FROM standings'
-        ) AS t(event_id INT, player VARCHAR)
-      )
-      AND player IN (SELECT name FROM dblink(
-        'host=localhost port=5432 dbname=${sql.unsafe(process.env.POSTGRES_DB!)} user=${sql.unsafe(process.env.POSTGRES_USER!)} password=${sql.unsafe(process.env.POSTGRES_PASSWORD!)}',
-        'SELECT name FROM players'
-      ) AS t(name VARCHAR))
-      AND event_id IN (SELECT id FROM dblink(
-        'host=localhost port=5432 dbname=${sql.unsafe(process.env.POSTGRES_DB!)} user=${sql.unsafe(process.env.POSTGRES_USER!)} password=${sql.unsafe(process.env.POSTGRES_PASSWORD!)}',
-        'SELECT id FROM events'
-      ) AS t(id INT))
-    `;
 
-    for (const standing of newStandings) {
-      try {
-        await sql`
-          INSERT INTO standings (event_id, rank, player, record, points, omwp, gwp, owp)
-          VALUES (${standing.event_id}, ${standing.rank}, ${standing.player}, ${standing.record}, ${standing.points}, ${standing.omwp}, ${standing.gwp}, ${standing.owp})
-          ON CONFLICT (event_id, player) DO NOTHING
-        `;
-        stats.standings++;
-      } catch (err) {
-        // Skip standings that violate constraints
+      if (policy === 'report-only') {
+        const count = await countNew(tx, table);
+        console.log(`  - Would add ${count.toLocaleString()} new ${table}`);
+        continue;
       }
-    }
-    console.log(`  ✓ Added ${stats.standings} new standings`);
-
-    // 6. Merge Archetypes
-    console.log('Merging archetypes...');
-    const newArchetypes = await sqlTemp`
-      SELECT id, deck_id, name, archetype, archetype_id FROM archetypes
-      WHERE id NOT IN (
-        SELECT id FROM dblink(
-          'host=localhost port=5432 dbname=${sql.unsafe(process.env.POSTGRES_DB!)} user=${sql.unsafe(process.env.POSTGRES_USER!)} password=${sql.unsafe(process.env.POSTGRES_PASSWORD!)}',
-          'SELECT id FROM archetypes'
-        ) AS t(id INT)
-      )
-      AND (deck_id IS NULL OR deck_id IN (SELECT id FROM dblink(
-        'host=localhost port=5432 dbname=${sql.unsafe(process.env.POSTGRES_DB!)} user=${sql.unsafe(process.env.POSTGRES_USER!)} password=${sql.unsafe(process.env.POSTGRES_PASSWORD!)}',
-        'SELECT id FROM decks'
-      ) AS t(id INT)))
-    `;
 
-    for (const archetype of newArchetypes) {
-      try {
-        await sql`
-          INSERT INTO archetypes (id, deck_id, name, archetype, archetype_id)
-          VALUES (${archetype.id}, ${archetype.deck_id}, ${archetype.name}, ${archetype.archetype}, ${archetype.archetype_id})
-          ON CONFLICT (id) DO NOTHING
-        `;
-        stats.archetypes++;
-      } catch (err) {
-        // Skip archetypes that violate constraints
+      const inserted = await insertNew(tx, table, columns);
+      stats[table].inserted = inserted.count;
+      inserted.eventIds.forEach(id => eventIds.add(id));
+      console.log(`  ✓ Added ${inserted.count.toLocaleString()} new ${table}`);
+
+      const rejected = await findRejected(tx, table, stagedTable, policy, rejects);
+      stats[table].rejected = rejected;
+      const total = Object.values(rejected).reduce((a, b) => a + b, 0);
+      if (total > 0) {
+        console.log(`  ✗ Rejected ${total.toLocaleString()} ${table} (${formatReasons(rejected)})`);
       }
     }
-    console.log(`  ✓ Added ${stats.archetypes} new archetypes`);
+  });
 
-  } finally {
-    await sqlTemp.end();
+  // Only count rows once the transaction has committed
+  for (const [table, { rows }] of staged) {
+    const { inserted, updated } = stats[table];
+    addCounts(report, table, { inserted, updated, skipped: rows - inserted - updated });
+    warnSkipped(table);
+
+    const rejected = stats[table].rejected;
+    const count = Object.values(rejected).reduce((a, b) => a + b, 0);
+    if (count > 0) {
+      addWarning(report, 'rows-rejected', `Rejected ${count} ${table} row(s) that could not be merged`, {
+        table,
+        count,
+        reasons: rejected,
+      });
+    }
+  }
+  for (const conflict of conflicts) {
+    addWarning(report, 'merge-conflicts', `${conflict.count} ${conflict.table} row(s) differ between the dump and the database`, {
+      table: conflict.table,
+      policy: conflict.policy,
+      count: conflict.count,
+      resolved: conflict.resolved,
+      fields: conflict.fields,
+      examples: conflict.examples,
+    });
+  }
+  for (const remap of remaps) {
+    addWarning(report, 'player-remapped', `Player ${remap.name} was remapped from ID ${remap.dumpId} to ${remap.localId}`, {
+      name: remap.name,
+      dumpId: remap.dumpId,
+      localId: remap.localId,
+      reason: remap.reason,
+    });
   }
+  addEventIds(report, eventIds);
 
-  return stats;
+  return { stats, conflicts, remaps };
+}
+
+function formatReasons(reasons: Record<string, number>): string {
+  return Object.entries(reasons).map(([reason, n]) => `${reason}: ${n.toLocaleString()}`).join(', ');
+}
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'null';
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function printConflicts(conflicts: ConflictSummary[]): void {
+  console.log('Conflicts (rows in both with differing fields):');
+  for (const c of conflicts) {
+    const resolution = c.policy === 'prefer-dump' || c.policy === 'fill-nulls'
+      ? `${c.resolved.toLocaleString()} updated from the dump`
+      : 'kept local';
+    console.log(`  • ${c.table}: ${c.count.toLocaleString()} (${c.policy}, ${resolution})`);
+
+    const fields = Object.entries(c.fields)
+      .sort(([, a], [, b]) => b - a)
+      .map(([field, n]) => `${field} (${n.toLocaleString()})`);
+    console.log(`      Fields: ${fields.join(', ')}`);
+
+    for (const example of c.examples) {
+      const key = TABLE_SPECS[c.table].key.map(k => `${k}=${formatValue(example.key[k])}`).join(' ');
+      console.log(`      ${key}:`);
+      for (const [field, diff] of Object.entries(example.fields)) {
+        console.log(`        ${field}: ${formatValue(diff.local)} → ${formatValue(diff.dump)}`);
+      }
+    }
+  }
 }
 
 async function main(): Promise<void> {
-  const dumpFile = process.argv[2];
+  const dumpFile = positionals[0];
+
+  const lockWait = args['wait'] ? parseDuration(args['wait'], 's') : 0;
+  const policies = parsePolicies(args['policy'] ?? []);
 
-  if (!dumpFile) {
-    console.error('Usage: pnpm merge-dump <dump-file.sql>');
+  if (!dumpFile || lockWait === null || !policies) {
+    console.error('Usage: pnpm merge-dump <dump-file> [--policy <policy>] [--rejects <file>] [--target <target>] [--json] [--report <file>] [--wait <t>]');
     console.error('\nThis script merges data from an older dump into your current database.');
-    console.error('It only imports records that do not already exist (based on primary keys).');
+    console.error('By default, it only imports records that do not already exist (based on primary and unique keys).');
+    console.error('The dump may be plain SQL or a custom or tar archive, optionally gzip-compressed.');
+    console.error('\nOptions:');
+    console.error('  --policy <p>      How to resolve rows that exist in both with differing fields, for all');
+    console.error('                    tables or per table (e.g. --policy archetypes=fill-nulls,events=prefer-dump):');
+    console.error('                      keep-local   Keep the local row (default)');
+    console.error('                      prefer-dump  Update the local row from the dump');
+    console.error('                      fill-nulls   Only fill in fields that are null locally');
+    console.error('                      report-only  Change nothing in the table, only report');
+    console.error('  --rejects <file>  Write the rows that could not be merged to this file, with the reason');
+    console.error('                    (CSV if it ends in .csv, NDJSON otherwise)');
+    console.error('  --target <target> Merge into this database instead of the one in .env: a');
+    console.error('                    connection string, or a name set as POSTGRES_TARGET_<NAME>');
+    console.error('  --json            Print a JSON report on stdout (logs move to stderr)');
+    console.error('  --report <file>   Write a JSON report to this file');
+    console.error('  --wait <t>        If another script is writing, wait up to this long (e.g. 5m)');
     process.exit(1);
   }
 
+  const rejectsFile = args['rejects'] ? resolve(args['rejects']) : null;
+  let lock: WriteLock | null = null;
+  let rejects: RejectsFile | null = null;
+
   try {
     console.log('🔄 MTGO Database Merge Utility\n');
     console.log(`Source dump: ${dumpFile}`);
-    console.log(`Target database: ${process.env.POSTGRES_DB}\n`);
+    console.log(`Target database: ${describeTarget(target)}`);
+    const customPolicies = MERGE_TABLES.filter(table => policies[table] !== 'keep-local');
+    if (customPolicies.length > 0) {
+      console.log(`Policies: ${customPolicies.map(table => `${table}=${policies[table]}`).join(', ')}`);
+    }
+    console.log('');
+
+    const dump = await detectDumpFormat(resolve(dumpFile));
+    console.log(`Detected ${describeDump(dump)}.`);
+
+    const manifest = await readManifest(dump.path);
+    if (manifest) {
+      console.log(`Verifying dump against its manifest (exported ${manifest.createdAt} on ${manifest.sourceHost})...`);
+      await verifyDump(dump, manifest);
+      console.log('  ✓ Checksum matches');
+
+      // Columns missing on either side are skipped by the merge, so this only warns
+      const schemaVersion = await getSchemaVersion(sql);
+      if (manifest.schemaVersion !== schemaVersion) {
+        console.log(`  ! The dump's schema (${manifest.schemaVersion}) differs from the database's (${schemaVersion})`);
+        addWarning(report, 'schema-mismatch', 'The dump was exported from a database with a different schema', {
+          dumpSchemaVersion: manifest.schemaVersion,
+          localSchemaVersion: schemaVersion,
+        });
+      }
+    } else {
+      console.log('  ! No manifest found next to the dump; its contents can\'t be verified');
+      addWarning(report, 'dump-unverified', 'The dump has no manifest, so its checksum and row counts were not verified');
+    }
+    console.log('');
+
+    // Step 0: Make sure no other script is writing to the database
+    const acquired = await acquireWriteLock(sql, 'merge-dump', lockWait);
+    if (!acquired.lock) {
+      throw new Error(describeHolder(acquired.holder));
+    }
+    lock = acquired.lock;
+
+    const tools = await getTools(target, ['psql', 'pg_restore']);
 
     // Step 1: Create temporary database
     console.log('Creating temporary database...');
@@ -350,26 +891,14 @@ async function main(): Promise<void> {
       throw err;
     }
 
-    // Step 2: Enable dblink extension in both databases
-    console.log('Enabling dblink extension...');
-    await execDockerPsql(TEMP_DB, 'CREATE EXTENSION IF NOT EXISTS dblink;');
-    await execDockerPsql(process.env.POSTGRES_DB!, 'CREATE EXTENSION IF NOT EXISTS dblink;');
-    console.log('  ✓ dblink enabled\n');
-
-    // Step 3: Import dump into temporary database
+    // Step 2: Import dump into temporary database
     console.log('Importing dump into temporary database...');
-    await importDumpToTemp(dumpFile);
+    await restoreDump(dump, tools, TEMP_DB, { ignore: ['already exists', 'extension'] });
     console.log('  ✓ Dump imported successfully\n');
 
-    // Step 3.5: Verify schema was created
+    // Step 2.5: Verify schema was created
     console.log('Verifying schema...');
-    const sqlTempCheck = postgres({
-      host: '127.0.0.1',
-      port: 5433,
-      user: process.env.POSTGRES_USER,
-      password: process.env.POSTGRES_PASSWORD,
-      database: TEMP_DB,
-    });
+    const sqlTempCheck = connect(target, { direct: true, database: TEMP_DB });
     
     try {
       const tables = await sqlTempCheck`
@@ -384,46 +913,125 @@ async function main(): Promise<void> {
       if (tables.length === 0) {
         throw new Error('No tables found in temporary database - dump may not have imported correctly');
       }
+
+      if (manifest) {
+        const mismatches = compareCounts(manifest.tables, await countRows(sqlTempCheck, Object.keys(manifest.tables)));
+        if (mismatches.length > 0) {
+          throw new Error(`Row counts of the restored dump don't match its manifest (${describeMismatches(mismatches)})`);
+        }
+        console.log(`  ✓ Row counts match the manifest (${Object.keys(manifest.tables).length} tables)`);
+      }
+
+      // A newer dump may have columns or enum values the database can't hold yet
+      const dumpVersion = await getMigrationVersion(sqlTempCheck);
+      const localVersion = await getMigrationVersion(sql);
+      if (dumpVersion !== null && localVersion !== null && dumpVersion > localVersion) {
+        throw new Error(
+          `The dump's schema is at migration ${dumpVersion}, newer than the database's (${localVersion}). ` +
+          'Migrate the database first with: pnpm run migrate up'
+        );
+      }
+      if (dumpVersion !== localVersion) {
+        console.log(`  ! The dump's schema is at migration ${dumpVersion ?? 'none'}, the database's at ${localVersion ?? 'none'}`);
+        addWarning(report, 'migration-mismatch', 'The dump was exported from a database at a different migration version', {
+          dumpMigrationVersion: dumpVersion,
+          localMigrationVersion: localVersion,
+        });
+      } else if (dumpVersion !== null) {
+        console.log(`  ✓ Schema at migration ${dumpVersion}, the same as the database's`);
+      }
     } finally {
       await sqlTempCheck.end();
     }
     console.log('');
 
-    // Step 4: Merge data from temp to main database
-    const stats = await mergeDatabases();
+    // Step 3: Copy the dump into the staging schema of the main database
+    console.log(`Staging dump in ${STAGING_SCHEMA} schema...`);
+    const staged = await stageDump();
+    await sqlDirect`DROP DATABASE IF EXISTS ${sql.unsafe(TEMP_DB)}`;
+    console.log('  ✓ Temporary database removed\n');
+
+    // Step 4: Merge staged rows into the main tables
+    console.log('Analyzing differences between databases...\n');
+    rejects = rejectsFile ? openRejectsFile(rejectsFile) : null;
+    const { stats, conflicts, remaps } = await mergeStaged(staged, policies, rejects);
+    await rejects?.close();
+    rejects = null;
 
     // Step 5: Cleanup
     console.log('\nCleaning up...');
-    await sqlDirect`DROP DATABASE IF EXISTS ${sql.unsafe(TEMP_DB)}`;
-    console.log('  ✓ Temporary database removed\n');
+    await dropStaging();
+    console.log('  ✓ Staging schema removed\n');
 
     // Summary
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
     console.log('Merge completed successfully.\n');
     console.log('Summary of new records added:');
-    console.log(`  • Players:    ${stats.players.toLocaleString()}`);
-    console.log(`  • Events:     ${stats.events.toLocaleString()}`);
-    console.log(`  • Decks:      ${stats.decks.toLocaleString()}`);
-    console.log(`  • Matches:    ${stats.matches.toLocaleString()}`);
-    console.log(`  • Standings:  ${stats.standings.toLocaleString()}`);
-    console.log(`  • Archetypes: ${stats.archetypes.toLocaleString()}`);
+    console.log(`  • Players:    ${stats.players.inserted.toLocaleString()}`);
+    console.log(`  • Events:     ${stats.events.inserted.toLocaleString()}`);
+    console.log(`  • Decks:      ${stats.decks.inserted.toLocaleString()}`);
+    console.log(`  • Matches:    ${stats.matches.inserted.toLocaleString()}`);
+    console.log(`  • Standings:  ${stats.standings.inserted.toLocaleString()}`);
+    console.log(`  • Archetypes: ${stats.archetypes.inserted.toLocaleString()}`);
+    if (remaps.length > 0) {
+      const temporary = remaps.filter(r => r.reason === 'id-collision').length;
+      console.log('');
+      console.log(`Remapped players: ${remaps.length.toLocaleString()} (${temporary.toLocaleString()} with temporary IDs)`);
+      if (temporary > 0) {
+        console.log('  Run reconcile-players to give them their upstream IDs.');
+      }
+    }
+    if (conflicts.length > 0) {
+      console.log('');
+      printConflicts(conflicts);
+    }
+    const rejected = MERGE_TABLES.filter(table => Object.keys(stats[table].rejected).length > 0);
+    if (rejected.length > 0) {
+      console.log('');
+      console.log('Rejected rows (not merged):');
+      rejected.forEach(table => console.log(`  • ${table}: ${formatReasons(stats[table].rejected)}`));
+      if (rejectsFile) {
+        console.log(`  Written to ${rejectsFile}`);
+      } else {
+        console.log('  Use --rejects <file> to save them for review.');
+      }
+    }
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    finishReport(report, 'completed');
 
   } catch (err) {
     console.error('\n  Merge failed:', err);
+    addError(report, err);
+    finishReport(report, 'failed');
+    process.exitCode = 1;
     
-    // Attempt cleanup
-    try {
-      await sqlDirect`DROP DATABASE IF EXISTS ${sql.unsafe(TEMP_DB)}`;
-    } catch {
-      // Ignore cleanup errors
+    // The merge was rolled back, so the rejected rows are incomplete
+    if (rejects && rejectsFile) {
+      await rejects.close().catch(() => {});
+      await unlink(rejectsFile).catch(() => {});
+    }
+
+    // Attempt cleanup, unless the temporary database belongs to another merge
+    if (lock) {
+      try {
+        await sqlDirect`DROP DATABASE IF EXISTS ${sql.unsafe(TEMP_DB)}`;
+        await dropStaging();
+      } catch {
+        // Ignore cleanup errors
+      }
     }
-    
-    process.exit(1);
   } finally {
+    await lock?.release();
     await sql.end();
     await sqlDirect.end();
   }
+
+  if (reportOptions.json || reportOptions.file) {
+    await writeReport(report, reportOptions).catch(err => {
+      console.error('Failed to write report:', err);
+      process.exitCode = 1;
+    });
+  }
 }
 
 main();
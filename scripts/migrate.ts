@@ -0,0 +1,306 @@
+import dotenv from 'dotenv';
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { acquireWriteLock, describeHolder, type WriteLock } from './lib/lock.ts';
+import { parseDuration } from './lib/duration.ts';
+import {
+  MIGRATIONS_DIR,
+  applyMigration,
+  ensureMigrationsTable,
+  getAppliedMigrations,
+  loadMigrations,
+  migrationFileName,
+  predatesMigrations,
+  revertMigration,
+  type AppliedMigration,
+  type Migration,
+} from './lib/migrations.ts';
+import { connect, describeTarget, resolveTarget, type Target } from './lib/target.ts';
+
+dotenv.config();
+
+/**
+ * Applies, reverts and creates the schema migrations in postgres/migrations/.
+ *
+ * Usage:
+ *   pnpm run migrate status
+ *   pnpm run migrate up [--to <version>] [--dry-run] [--wait <t>]
+ *   pnpm run migrate down [--to <version>] [--dry-run] [--wait <t>]
+ *   pnpm run migrate new <name>
+ *
+ * Commands:
+ *   status            Show the applied and pending migrations
+ *   up                Apply the pending migrations
+ *   down              Revert the latest migration, or those after --to
+ *   new               Create the up and down files of the next migration
+ *
+ * Options:
+ *   --to <version>    Migrate up or down to this version
+ *   --dry-run         Show the migrations that would run without running them
+ *   --wait <t>        If another script is writing, wait up to this long (e.g. 5m)
+ *   --target <target> Migrate this database instead of the one in .env
+ *
+ * Each migration runs in its own transaction, along with its record in
+ * schema_migrations. The first migration (the initial schema) is only
+ * reverted with an explicit --to 0, as that drops all data.
+ */
+
+const COMMANDS = ['status', 'up', 'down', 'new'] as const;
+
+type Command = typeof COMMANDS[number];
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    'to': { type: 'string' },
+    'dry-run': { type: 'boolean', default: false },
+    'wait': { type: 'string' },
+    'target': { type: 'string' },
+  },
+});
+
+const command = positionals[0] as Command | undefined;
+const lockWait = args['wait'] ? parseDuration(args['wait'], 's') : 0;
+const toVersion = args['to'] !== undefined && /^\d+$/.test(args['to']) ? Number(args['to']) : null;
+
+let target: Target | null = null;
+try {
+  target = resolveTarget(args['target']);
+} catch (err) {
+  console.error(`Error: ${(err as Error).message}\n`);
+}
+
+if (
+  !command ||
+  !COMMANDS.includes(command) ||
+  positionals.length !== (command === 'new' ? 2 : 1) ||
+  (args['to'] !== undefined && toVersion === null) ||
+  lockWait === null ||
+  !target
+) {
+  console.error('Usage:');
+  console.error('  pnpm run migrate status');
+  console.error('  pnpm run migrate up [--to <version>] [--dry-run] [--wait <t>]');
+  console.error('  pnpm run migrate down [--to <version>] [--dry-run] [--wait <t>]');
+  console.error('  pnpm run migrate new <name>');
+  console.error('');
+  console.error('Commands:');
+  console.error('  status            Show the applied and pending migrations');
+  console.error('  up                Apply the pending migrations');
+  console.error('  down              Revert the latest migration, or those after --to');
+  console.error('  new               Create the up and down files of the next migration');
+  console.error('');
+  console.error('Options:');
+  console.error('  --to <version>    Migrate up or down to this version');
+  console.error('  --dry-run         Show the migrations that would run without running them');
+  console.error('  --wait <t>        If another script is writing, wait up to this long (e.g. 5m)');
+  console.error('  --target <target> Migrate this database instead of the one in .env: a');
+  console.error('                    connection string, or a name set as POSTGRES_TARGET_<NAME>');
+  process.exit(1);
+}
+
+// Migrations change the schema, which only the primary can
+const sql = connect(target, { direct: true });
+
+function label(migration: { version: number; name: string }): string {
+  return `${String(migration.version).padStart(4, '0')} ${migration.name}`;
+}
+
+/**
+ * Warns about applied migrations whose up file changed since, or is gone.
+ */
+function checkApplied(migrations: Migration[], applied: AppliedMigration[]): void {
+  for (const record of applied) {
+    const migration = migrations.find(m => m.version === record.version);
+    if (!migration) {
+      console.log(`! ${label(record)} is applied, but its files are missing from ${MIGRATIONS_DIR}`);
+    } else if (migration.checksum !== record.checksum) {
+      console.log(`! ${label(record)} changed since it was applied; add a new migration instead of editing an applied one`);
+    }
+  }
+}
+
+async function statusCommand(): Promise<void> {
+  const migrations = await loadMigrations();
+  const applied = await getAppliedMigrations(sql);
+  const baseline = await predatesMigrations(sql);
+
+  const version = applied.length > 0 ? applied[applied.length - 1].version : 0;
+  const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  console.log(`Database: ${describeTarget(target!)}`);
+  console.log(`Migration version: ${version} (latest: ${latest})\n`);
+
+  const versions = [...new Set([...migrations.map(m => m.version), ...applied.map(a => a.version)])].sort((a, b) => a - b);
+  const width = Math.max(0, ...[...migrations, ...applied].map(m => label(m).length));
+  for (const v of versions) {
+    const migration = migrations.find(m => m.version === v);
+    const record = applied.find(a => a.version === v);
+    if (record && !migration) {
+      console.log(`  ✗ ${label(record).padEnd(width)}  applied ${record.appliedAt.toISOString()}, but its files are missing`);
+    } else if (record) {
+      const changed = record.checksum !== migration!.checksum ? ', changed since' : '';
+      console.log(`  ${changed ? '!' : '✓'} ${label(record).padEnd(width)}  applied ${record.appliedAt.toISOString()}${changed}`);
+    } else if (baseline && migration === migrations[0]) {
+      console.log(`  - ${label(migration!).padEnd(width)}  pending (the schema has it, so up only records it)`);
+    } else {
+      console.log(`  - ${label(migration!).padEnd(width)}  pending`);
+    }
+  }
+
+  const pending = migrations.filter(m => !applied.some(a => a.version === m.version));
+  console.log('');
+  console.log(pending.length > 0
+    ? `${pending.length} pending migration${pending.length === 1 ? '' : 's'}; apply with: pnpm run migrate up`
+    : '✓ The schema is up to date.');
+}
+
+async function upCommand(): Promise<void> {
+  let lock: WriteLock | null = null;
+
+  try {
+    const migrations = await loadMigrations();
+    const applied = await getAppliedMigrations(sql);
+    const baseline = await predatesMigrations(sql);
+    checkApplied(migrations, applied);
+
+    const pending = migrations.filter(m =>
+      !applied.some(a => a.version === m.version) && (toVersion === null || m.version <= toVersion)
+    );
+    console.log(`Database: ${describeTarget(target!)}\n`);
+    if (pending.length === 0) {
+      console.log('✓ The schema is up to date.');
+      return;
+    }
+
+    if (args['dry-run']) {
+      console.log('Would apply:');
+      for (const migration of pending) {
+        const recordOnly = baseline && migration === migrations[0];
+        console.log(`  - ${label(migration)}${recordOnly ? ' (already in the schema, only recorded)' : ''}`);
+      }
+      return;
+    }
+
+    // Make sure no other script is writing to the database
+    const acquired = await acquireWriteLock(sql, 'migrate', lockWait!);
+    if (!acquired.lock) {
+      throw new Error(describeHolder(acquired.holder));
+    }
+    lock = acquired.lock;
+
+    await ensureMigrationsTable(sql);
+    for (const migration of pending) {
+      if (baseline && migration === migrations[0]) {
+        await applyMigration(sql, migration, true);
+        console.log(`✓ Recorded ${label(migration)}, which the schema predating migrations already has`);
+      } else {
+        await applyMigration(sql, migration);
+        console.log(`✓ Applied ${label(migration)}`);
+      }
+    }
+
+    console.log(`\n✓ Migrated to version ${pending[pending.length - 1].version}.`);
+  } finally {
+    await lock?.release();
+  }
+}
+
+async function downCommand(): Promise<void> {
+  let lock: WriteLock | null = null;
+
+  try {
+    const migrations = await loadMigrations();
+    const applied = await getAppliedMigrations(sql);
+    checkApplied(migrations, applied);
+
+    console.log(`Database: ${describeTarget(target!)}\n`);
+    if (applied.length === 0) {
+      console.log('No migrations are applied.');
+      return;
+    }
+
+    const to = toVersion ?? (applied.length > 1 ? applied[applied.length - 2].version : null);
+    if (to === null) {
+      throw new Error(`Reverting ${label(applied[0])} drops the whole schema with all data; pass --to 0 to do so`);
+    }
+
+    const reverting = applied.filter(a => a.version > to).reverse().map(record => {
+      const migration = migrations.find(m => m.version === record.version);
+      if (!migration) {
+        throw new Error(`${label(record)} can't be reverted, as its files are missing from ${MIGRATIONS_DIR}`);
+      }
+      return migration;
+    });
+    if (reverting.length === 0) {
+      console.log(`✓ The schema is already at version ${to} or before.`);
+      return;
+    }
+
+    if (args['dry-run']) {
+      console.log('Would revert:');
+      reverting.forEach(migration => console.log(`  - ${label(migration)}`));
+      return;
+    }
+
+    // Make sure no other script is writing to the database
+    const acquired = await acquireWriteLock(sql, 'migrate', lockWait!);
+    if (!acquired.lock) {
+      throw new Error(describeHolder(acquired.holder));
+    }
+    lock = acquired.lock;
+
+    for (const migration of reverting) {
+      await revertMigration(sql, migration);
+      console.log(`✓ Reverted ${label(migration)}`);
+    }
+
+    console.log(`\n✓ Migrated down to version ${to}.`);
+  } finally {
+    await lock?.release();
+  }
+}
+
+async function newCommand(): Promise<void> {
+  const name = positionals[1].toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!name) {
+    throw new Error(`Invalid migration name: ${positionals[1]}`);
+  }
+
+  const migrations = await loadMigrations();
+  const version = migrations.length > 0 ? migrations[migrations.length - 1].version + 1 : 1;
+  const upFile = path.join(MIGRATIONS_DIR, migrationFileName(version, name, 'up'));
+  const downFile = path.join(MIGRATIONS_DIR, migrationFileName(version, name, 'down'));
+
+  await writeFile(upFile, '-- Describe the change here; the migration runs in one transaction\n\n', { flag: 'wx' });
+  await writeFile(downFile, `-- Undo ${path.basename(upFile)} here\n\n`, { flag: 'wx' });
+
+  console.log(`✓ Created ${path.relative(process.cwd(), upFile)}`);
+  console.log(`✓ Created ${path.relative(process.cwd(), downFile)}`);
+}
+
+async function main(): Promise<void> {
+  try {
+    switch (command!) {
+      case 'status':
+        await statusCommand();
+        break;
+      case 'up':
+        await upCommand();
+        break;
+      case 'down':
+        await downCommand();
+        break;
+      case 'new':
+        await newCommand();
+        break;
+    }
+  } catch (err) {
+    console.error(`Error running migrate ${command}:`, err);
+    process.exitCode = 1;
+  } finally {
+    await sql.end();
+  }
+}
+
+main();
@@ -0,0 +1,361 @@
+import dotenv from 'dotenv';
+import { spawn } from 'node:child_process';
+import fs from 'node:fs';
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { parseArgs } from 'node:util';
+import { acquireWriteLock, describeHolder, type WriteLock } from './lib/lock.ts';
+import { formatAge, parseDuration } from './lib/duration.ts';
+import { fileTimestamp, formatSize } from './lib/backups.ts';
+import { countRows, getMaxEventDate } from './lib/manifest.ts';
+import {
+  ARCHIVE_DIR,
+  BASE_BACKUP_DIR,
+  SAVED_DATA_DIR,
+  WAL_DIR,
+  archiveCurrentWal,
+  getArchiverStatus,
+  listBaseBackups,
+  listSyncRuns,
+  resolveRecoveryTarget,
+  type SyncRun,
+} from './lib/pitr.ts';
+import { connect, describeTarget, isContainerRunning, resolveTarget } from './lib/target.ts';
+
+dotenv.config();
+
+/**
+ * Restores the local database to a point in time: the newest base backup
+ * taken before it, with the archived WAL replayed up to just before it.
+ *
+ * Usage:
+ *   pnpm run pitr-restore --to <timestamp|run-id> [--dry-run] [--wait <t>]
+ *   pnpm run pitr-restore --list
+ *
+ * Options:
+ *   --to <when>       Restore to just before this moment: a timestamp (e.g.
+ *                     2025-03-01T12:00:00Z, in local time without a time zone),
+ *                     or the id of a sync run, to just before it started
+ *   --list            Show the base backups, the WAL archive and recent sync runs
+ *   --dry-run         Show the restore plan without changing anything
+ *   --wait <t>        If another script is writing, wait up to this long (e.g. 5m)
+ *   --dir <dir>       Directory of the WAL archive and base backups (default: postgres/wal)
+ *
+ * The restore works on the whole Docker stack: it stops the running services,
+ * saves the primary's data directory to postgres/wal/pre-restore/, lays down
+ * the base backup, and starts the primary in recovery, which promotes it once
+ * it reaches the target. The other services are then started again, and the
+ * replica clones the restored primary.
+ */
+
+// How long the primary may take to replay the WAL up to the target
+const RECOVERY_TIMEOUT_MS = 60 * 60_000;
+
+// How long the archiver may take to archive the current WAL segment
+const ARCHIVE_TIMEOUT_MS = 60_000;
+
+// Settings the restore adds to postgresql.auto.conf, and resets once it is done
+const RECOVERY_SETTINGS = ['restore_command', 'recovery_target_time', 'recovery_target_inclusive', 'recovery_target_action'];
+
+// Run as root in a one-off postgres container, with the data volume and the
+// WAL directory (as /pg/wal) mounted
+const RESTORE_SCRIPT = `
+set -euo pipefail
+cd /var/lib/postgresql/data
+mkdir -p /pg/wal/${SAVED_DATA_DIR}
+tar -czf "/pg/wal/${SAVED_DATA_DIR}/$SAVED" .
+find . -mindepth 1 -delete
+tar -xzf "/pg/wal/${BASE_BACKUP_DIR}/$BASE/base.tar.gz"
+tar -xzf "/pg/wal/${BASE_BACKUP_DIR}/$BASE/pg_wal.tar.gz" -C pg_wal
+cat >> postgresql.auto.conf <<EOF
+restore_command = 'test -f /pg/wal/${ARCHIVE_DIR}/%f.gz && gunzip -c /pg/wal/${ARCHIVE_DIR}/%f.gz > %p'
+recovery_target_time = '$TARGET_TIME'
+recovery_target_inclusive = off
+recovery_target_action = promote
+EOF
+touch recovery.signal
+chown -R postgres:postgres .
+chmod 700 .
+`;
+
+const { values: args } = parseArgs({
+  options: {
+    'to': { type: 'string' },
+    'list': { type: 'boolean', default: false },
+    'dry-run': { type: 'boolean', default: false },
+    'wait': { type: 'string' },
+    'dir': { type: 'string', default: WAL_DIR },
+  },
+});
+
+const walDir = path.resolve(process.cwd(), args['dir']);
+const lockWait = args['wait'] ? parseDuration(args['wait'], 's') : 0;
+
+if ((!args['to'] && !args['list']) || (args['to'] && args['list']) || lockWait === null) {
+  console.error('Usage:');
+  console.error('  pnpm run pitr-restore --to <timestamp|run-id> [--dry-run] [--wait <t>]');
+  console.error('  pnpm run pitr-restore --list');
+  console.error('');
+  console.error('Examples:');
+  console.error('  pnpm run pitr-restore --to 2025-03-01T12:00:00Z');
+  console.error('  pnpm run pitr-restore --to 0b7d3c52-5c1e-4f0a-9a51-2f4e1d0c9b8a');
+  console.error('');
+  console.error('Options:');
+  console.error('  --to <when>       Restore to just before this moment: a timestamp (e.g.');
+  console.error('                    2025-03-01T12:00:00Z, in local time without a time zone),');
+  console.error('                    or the id of a sync run, to just before it started');
+  console.error('  --list            Show the base backups, the WAL archive and recent sync runs');
+  console.error('  --dry-run         Show the restore plan without changing anything');
+  console.error('  --wait <t>        If another script is writing, wait up to this long (e.g. 5m)');
+  console.error(`  --dir <dir>       Directory of the WAL archive and base backups (default: ${WAL_DIR})`);
+  process.exit(1);
+}
+
+// Point-in-time recovery replaces the local primary's data directory
+const target = resolveTarget(undefined);
+
+function docker(args: string[], capture = false): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn('docker', args, { stdio: ['ignore', capture ? 'pipe' : 'inherit', 'inherit'] });
+    let stdout = '';
+    proc.stdout?.on('data', (data) => {
+      stdout += data.toString();
+    });
+    proc.on('error', (err) => reject(new Error(`Failed to spawn docker: ${err.message}`)));
+    proc.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`docker ${args.slice(0, 2).join(' ')} exited with code ${code}`));
+      }
+    });
+  });
+}
+
+function describeRun(run: SyncRun): string {
+  return `${run.id}  ${run.startedAt.toISOString()}  ${run.status.padEnd(9)}  ${run.source}`;
+}
+
+async function listCommand(): Promise<void> {
+  const sql = connect(target, { direct: true });
+
+  try {
+    const backups = await listBaseBackups(walDir);
+    if (backups.length === 0) {
+      console.log(`No base backups in ${walDir}.`);
+    } else {
+      console.log(`Base backups in ${walDir}:\n`);
+      console.log(`  ${'Backup'.padEnd(19)}  ${'Finished'.padEnd(24)}  ${'Age'.padStart(8)}  ${'Size'.padStart(10)}  Timeline`);
+      for (const backup of backups) {
+        console.log(
+          `  ${backup.id}  ${backup.finishedAt.toISOString()}  ${formatAge(backup.finishedAt).padStart(8)}  ` +
+          `${formatSize(backup.bytes).padStart(10)}  ${backup.timeline}`
+        );
+      }
+    }
+
+    const archiveDir = path.join(walDir, ARCHIVE_DIR);
+    const segments = (await readdir(archiveDir).catch(() => [] as string[])).filter(file => /^[0-9A-F]{24}\.gz$/.test(file));
+    let bytes = 0;
+    for (const file of segments) {
+      bytes += (await stat(path.join(archiveDir, file))).size;
+    }
+    const archiver = await getArchiverStatus(sql);
+    console.log(`\nWAL archive: ${segments.length} segments (${formatSize(bytes)}) in ${archiveDir}`);
+    if (!archiver) {
+      console.log('! WAL archiving is off on the primary (archive_mode), so it can\'t be restored to a point in time.');
+    } else if (archiver.lastArchivedAt) {
+      console.log(`Last archived ${archiver.lastArchivedWal} at ${archiver.lastArchivedAt}.`);
+    }
+    if (archiver?.lastFailedAt && (!archiver.lastArchivedAt || archiver.lastFailedAt > archiver.lastArchivedAt)) {
+      console.log(`✗ Archiving ${archiver.lastFailedWal} failed at ${archiver.lastFailedAt}; check: docker compose logs postgres`);
+    }
+
+    if (backups.length > 0 && archiver) {
+      const oldest = backups[backups.length - 1];
+      console.log(`\nThe database can be restored to any moment since ${oldest.finishedAt.toISOString()}.`);
+    }
+
+    const runs = await listSyncRuns(sql, null, 10);
+    if (runs.length > 0) {
+      console.log('\nRecent sync runs (pass an id as --to to restore to just before it):\n');
+      runs.forEach(run => console.log(`  ${describeRun(run)}`));
+    }
+  } finally {
+    await sql.end();
+  }
+}
+
+/**
+ * Waits for the restarted primary to replay the WAL and promote itself, which
+ * it does once it reaches the recovery target.
+ */
+async function waitForPromotion(): Promise<void> {
+  const sql = connect(target, { direct: true });
+  const deadline = Date.now() + RECOVERY_TIMEOUT_MS;
+  let lastError = '';
+
+  try {
+    while (Date.now() < deadline) {
+      try {
+        const [{ recovering }] = await sql<{ recovering: boolean }[]>`SELECT pg_is_in_recovery() AS recovering`;
+        if (!recovering) return;
+        lastError = 'still replaying WAL';
+      } catch (err) {
+        // Refused while the server starts, or while it restarts after a failed recovery
+        lastError = (err as Error).message;
+      }
+      await sleep(5000);
+    }
+  } finally {
+    await sql.end();
+  }
+
+  throw new Error(
+    `The primary did not finish recovery within ${RECOVERY_TIMEOUT_MS / 60_000} minutes (${lastError}); ` +
+    'check: docker compose logs postgres'
+  );
+}
+
+async function restoreCommand(): Promise<void> {
+  const sql = connect(target, { direct: true });
+  let lock: WriteLock | null = null;
+  let ended = false;
+
+  try {
+    if (!await isContainerRunning()) {
+      throw new Error('The postgres-prod container is not running. pitr-restore restores the local Docker database; start it with: pnpm start');
+    }
+
+    const recovery = await resolveRecoveryTarget(sql, args['to']!);
+    if (recovery.time.getTime() > Date.now()) {
+      throw new Error(`${recovery.time.toISOString()} is in the future`);
+    }
+
+    const backups = await listBaseBackups(walDir);
+    const base = backups.find(backup => backup.finishedAt < recovery.time);
+    if (!base) {
+      throw new Error(backups.length > 0
+        ? `The oldest base backup finished at ${backups[backups.length - 1].finishedAt.toISOString()}, after ${recovery.time.toISOString()}`
+        : `No base backups found in ${path.join(walDir, BASE_BACKUP_DIR)}; take one with: pnpm run backup base`);
+    }
+
+    if (!await getArchiverStatus(sql)) {
+      throw new Error('WAL archiving is off on the primary (archive_mode), so there is no archive to restore from');
+    }
+
+    console.log(`Restoring ${describeTarget(target)}`);
+    console.log(`to ${recovery.time.toISOString()}${recovery.run ? ` (just before sync run ${recovery.run.id} started)` : ''}\n`);
+    console.log(`Base backup: ${base.id} (finished ${base.finishedAt.toISOString()}, ${formatSize(base.bytes)})`);
+
+    const undone = await listSyncRuns(sql, recovery.time);
+    if (undone.length > 0) {
+      console.log(`\nSync runs that will be undone (${undone.length}):`);
+      undone.forEach(run => console.log(`  ${describeRun(run)}`));
+    }
+    console.log('');
+
+    if (args['dry-run']) {
+      console.log('Dry run: nothing was changed.');
+      return;
+    }
+
+    // Make sure no other script is writing to the database
+    const acquired = await acquireWriteLock(sql, 'pitr-restore', lockWait!);
+    if (!acquired.lock) {
+      throw new Error(describeHolder(acquired.holder));
+    }
+    lock = acquired.lock;
+
+    console.log('Archiving the current WAL segment...');
+    const wal = await archiveCurrentWal(sql, ARCHIVE_TIMEOUT_MS);
+    console.log(`✓ Archived up to ${wal}.`);
+
+    const running = (await docker(['compose', 'ps', '--services', '--status', 'running'], true))
+      .split('\n')
+      .map(service => service.trim())
+      .filter(Boolean);
+
+    // The lock goes with the server, which is about to stop
+    await lock.release();
+    lock = null;
+    await sql.end();
+    ended = true;
+
+    console.log(`\nStopping ${running.join(', ')}...`);
+    await docker(['compose', 'stop', ...running]);
+
+    const saved = path.join(walDir, SAVED_DATA_DIR, `${fileTimestamp(new Date())}.tar.gz`);
+    try {
+      console.log(`\nSaving the data directory and laying down base backup ${base.id}...`);
+      await docker([
+        'compose', 'run', '--rm', '--no-deps',
+        '-e', `BASE=${base.id}`,
+        '-e', `SAVED=${path.basename(saved)}`,
+        '-e', `TARGET_TIME=${recovery.time.toISOString()}`,
+        '--entrypoint', 'bash',
+        'postgres', '-c', RESTORE_SCRIPT,
+      ]);
+
+      console.log('\nStarting the primary in recovery...');
+      await docker(['compose', 'start', 'postgres']);
+      await waitForPromotion();
+      console.log('✓ Recovery finished.');
+    } catch (err) {
+      throw new Error(
+        `${(err as Error).message}. The other services were left stopped; ` +
+        `the replaced data directory is saved in ${saved} if it was written.`
+      );
+    }
+
+    const sqlRestored = connect(target, { direct: true });
+    try {
+      for (const setting of RECOVERY_SETTINGS) {
+        await sqlRestored`ALTER SYSTEM RESET ${sqlRestored.unsafe(setting)}`;
+      }
+      await sqlRestored`SELECT pg_reload_conf()`;
+
+      const counts = await countRows(sqlRestored);
+      console.log('');
+      for (const [table, count] of Object.entries(counts)) {
+        console.log(`  ${table.padEnd(20)} ${count.toLocaleString()}`);
+      }
+      console.log(`\nLatest event: ${await getMaxEventDate(sqlRestored) ?? 'none'}`);
+    } finally {
+      await sqlRestored.end();
+    }
+
+    const others = running.filter(service => service !== 'postgres');
+    if (others.length > 0) {
+      console.log(`\nStarting ${others.join(', ')}...`);
+      await docker(['compose', 'start', ...others]);
+    }
+
+    console.log(`\n✓ Restored to ${recovery.time.toISOString()}.`);
+    console.log(`The replaced data directory is saved in ${saved}; remove it once you no longer need it.`);
+
+  } finally {
+    await lock?.release();
+    if (!ended) await sql.end();
+  }
+}
+
+async function main(): Promise<void> {
+  try {
+    if (!fs.existsSync(walDir)) {
+      throw new Error(`WAL directory not found: ${walDir}`);
+    }
+
+    if (args['list']) {
+      await listCommand();
+    } else {
+      await restoreCommand();
+    }
+  } catch (err) {
+    console.error('Error restoring to a point in time:', err);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,252 @@
+import postgres from 'postgres';
+import dotenv from 'dotenv';
+import { parseArgs } from 'node:util';
+import { acquireWriteLock, describeHolder, type WriteLock } from './lib/lock.ts';
+import { parseDuration } from './lib/duration.ts';
+import { connectUpstream, parseUpstream } from './lib/upstream.ts';
+
+dotenv.config();
+
+interface PlayerFix {
+  name: string;
+  oldId: number;
+  newId: number;
+}
+
+interface PlayerCollision {
+  name: string;
+  tempId: number;
+  upstreamId: number;
+  // Local player currently holding the upstream ID
+  localName: string;
+  // Upstream ID of that local player, if it exists upstream
+  localNameUpstreamId: number | null;
+}
+
+/**
+ * Re-checks players with temporary (negative) IDs against the upstream
+ * players table. sync-upstream assigns these IDs to players that were missing
+ * upstream, or whose upstream ID was already taken by a different local player.
+ *
+ * Players found upstream are rewritten to their upstream ID. Players whose
+ * upstream ID is held locally by a player with a different name are reported
+ * as collisions for manual review, and are left unchanged.
+ *
+ * Usage:
+ *   UPSTREAM_CONNECTION_STRING=<connection-string> pnpm run reconcile-players [options]
+ *
+ * Options:
+ *   --dry-run         Report what would change without writing anything
+ *   --wait <t>        If another script is writing, wait up to this long (e.g. 5m)
+ */
+
+const upstreamConnectionString = process.env.UPSTREAM_CONNECTION_STRING;
+
+if (!upstreamConnectionString) {
+  console.error('Error: UPSTREAM_CONNECTION_STRING environment variable is required.');
+  console.error('');
+  console.error('Usage:');
+  console.error('  UPSTREAM_CONNECTION_STRING=<connection-string> pnpm run reconcile-players [options]');
+  console.error('');
+  console.error('Options:');
+  console.error('  --dry-run         Report what would change without writing anything');
+  console.error('  --wait <t>        If another script is writing, wait up to this long (e.g. 5m)');
+  process.exit(1);
+}
+
+const upstreamConfig = parseUpstream(upstreamConnectionString);
+
+const { values: args } = parseArgs({
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+    'wait': { type: 'string' },
+  },
+});
+
+const dryRun = args['dry-run'];
+
+const lockWait = args['wait'] ? parseDuration(args['wait'], 's') : 0;
+if (lockWait === null) {
+  console.error(`Error: Invalid --wait "${args['wait']}". Use e.g. 30s, 5m or 1h.`);
+  process.exit(1);
+}
+
+// Connect to upstream database
+const upstream = connectUpstream(upstreamConfig);
+
+// Connect to local database via PgBouncer
+const local = postgres({
+  host: process.env.POSTGRES_HOST || '127.0.0.1',
+  port: Number(process.env.POSTGRES_PORT) || 6432,
+  user: process.env.POSTGRES_USER,
+  password: process.env.POSTGRES_PASSWORD,
+  database: process.env.POSTGRES_DB,
+});
+
+async function getUpstreamIds(names: string[]): Promise<Map<string, number>> {
+  // Number of names looked up upstream per query
+  const CHUNK_SIZE = 10000;
+  const ids = new Map<string, number>();
+
+  for (let i = 0; i < names.length; i += CHUNK_SIZE) {
+    const chunk = names.slice(i, i + CHUNK_SIZE);
+    const rows = await upstream<{ id: number; name: string }[]>`
+      SELECT id, name FROM players
+      WHERE name = ANY(${upstream.array(chunk)}::text[]);
+    `;
+    rows.forEach(r => ids.set(r.name, r.id));
+  }
+
+  return ids;
+}
+
+async function reconcilePlayers(): Promise<void> {
+  let lock: WriteLock | null = null;
+
+  try {
+    console.log('='.repeat(60));
+    console.log('MTGO Player Reconciliation - Temporary IDs');
+    console.log('='.repeat(60));
+    console.log('');
+
+    // Check connection to upstream
+    console.log('Testing upstream database connection...');
+    try {
+      await upstream`SELECT 1`;
+      console.log('✓ Connected to upstream database.\n');
+    } catch (err) {
+      throw new Error(`Failed to connect to upstream database: ${err}`);
+    }
+
+    // Check connection to local
+    console.log('Testing local database connection...');
+    try {
+      await local`SELECT 1`;
+      console.log('✓ Connected to local database.\n');
+    } catch (err) {
+      throw new Error(`Failed to connect to local database: ${err}`);
+    }
+
+    if (!dryRun) {
+      const acquired = await acquireWriteLock(local, 'reconcile-players', lockWait!);
+      if (!acquired.lock) {
+        throw new Error(describeHolder(acquired.holder));
+      }
+      lock = acquired.lock;
+    }
+
+    const tempPlayers = await local<{ id: number; name: string }[]>`
+      SELECT id, name FROM players
+      WHERE id < 0
+      ORDER BY id DESC;
+    `;
+    console.log(`Found ${tempPlayers.length} player(s) with temporary IDs.\n`);
+
+    if (tempPlayers.length === 0) {
+      console.log('✓ Nothing to reconcile.');
+      return;
+    }
+
+    const upstreamIds = await getUpstreamIds(tempPlayers.map(p => p.name));
+
+    // Find the local players already holding the upstream IDs
+    const wantedIds = [...new Set(upstreamIds.values())];
+    const holders = await local<{ id: number; name: string }[]>`
+      SELECT id, name FROM players
+      WHERE id = ANY(${local.array(wantedIds)}::int[]);
+    `;
+    const holderById = new Map(holders.map(p => [p.id, p.name]));
+    const holderUpstreamIds = await getUpstreamIds(holders.map(p => p.name));
+
+    const fixes: PlayerFix[] = [];
+    const collisions: PlayerCollision[] = [];
+    const missing: { id: number; name: string }[] = [];
+
+    for (const player of tempPlayers) {
+      const upstreamId = upstreamIds.get(player.name);
+
+      if (upstreamId === undefined) {
+        // Still not upstream, keep the temporary ID
+        missing.push(player);
+        continue;
+      }
+
+      const localName = holderById.get(upstreamId);
+      if (localName !== undefined) {
+        // The same upstream ID maps to different names locally and upstream
+        collisions.push({
+          name: player.name,
+          tempId: player.id,
+          upstreamId,
+          localName,
+          localNameUpstreamId: holderUpstreamIds.get(localName) ?? null,
+        });
+        continue;
+      }
+
+      fixes.push({ name: player.name, oldId: player.id, newId: upstreamId });
+    }
+
+    if (fixes.length > 0) {
+      console.log(`${dryRun ? 'Would fix' : 'Fixing'} ${fixes.length} player(s):`);
+      fixes.forEach(f => {
+        console.log(`  ${f.name}: ${f.oldId} → ${f.newId}`);
+      });
+      console.log('');
+    }
+
+    if (fixes.length > 0 && !dryRun) {
+      // Players are referenced by name, so only the players table changes
+      await local`
+        UPDATE players p
+        SET id = f.new_id
+        FROM (
+          SELECT
+            unnest(${local.array(fixes.map(f => f.name))}::text[]) AS name,
+            unnest(${local.array(fixes.map(f => f.newId))}::int[]) AS new_id
+        ) f
+        WHERE p.name = f.name AND p.id < 0;
+      `;
+      console.log(`✓ Rewrote ${fixes.length} player(s) to their upstream IDs.\n`);
+    }
+
+    if (collisions.length > 0) {
+      console.log(`Needs review - ${collisions.length} ID collision(s):`);
+      collisions.forEach(c => {
+        const hint = c.localNameUpstreamId === null
+          ? `"${c.localName}" does not exist upstream`
+          : `"${c.localName}" is ID ${c.localNameUpstreamId} upstream`;
+        console.log(`  ${c.name} (${c.tempId}): upstream ID ${c.upstreamId} is held locally by "${c.localName}" (${hint})`);
+      });
+      console.log('');
+    }
+
+    if (missing.length > 0) {
+      console.log(`Still missing upstream - ${missing.length} player(s):`);
+      missing.forEach(p => {
+        console.log(`  ${p.name} (${p.id})`);
+      });
+      console.log('');
+    }
+
+    console.log('='.repeat(60));
+    console.log(dryRun ? 'Reconcile Summary (dry run)' : 'Reconcile Summary');
+    console.log('='.repeat(60));
+    console.log(`Temporary IDs:    ${tempPlayers.length}`);
+    console.log(`Fixed:            ${fixes.length}`);
+    console.log(`Collisions:       ${collisions.length}`);
+    console.log(`Not upstream:     ${missing.length}`);
+    console.log('='.repeat(60));
+
+  } catch (err) {
+    console.error('');
+    console.error('Error during player reconciliation:', err);
+    process.exitCode = 1;
+  } finally {
+    await lock?.release();
+    await upstream.end();
+    await local.end();
+  }
+}
+
+reconcilePlayers();